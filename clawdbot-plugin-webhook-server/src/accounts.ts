@@ -0,0 +1,188 @@
+import type { ClawdbotConfig } from 'clawdbot/plugin-sdk';
+import { DEFAULT_ACCOUNT_ID, normalizeAccountId } from 'clawdbot/plugin-sdk';
+import { IncomingMessage } from 'http';
+import { DEFAULT_MARKDOWN_OPTIONS, MarkdownRenderOptions } from './markdown.js';
+import { authenticateRequest, resolveAuthTokens } from './auth.js';
+import { DEFAULT_QUEUE_OPTIONS, QueueOptions, BusyPolicy } from './session-queue.js';
+
+/**
+ * Settings under `channels.wechat`, or under `channels.wechat.accounts.<id>`
+ */
+export interface WeChatConfig {
+    name?: string;
+    enabled?: boolean;
+    authToken?: string;
+    authTokens?: string[];
+    callbackUrl?: string; // Optional default callback URL
+    agentId?: string;     // Agent used when no routing binding matches
+    allowFrom?: string[];  // OpenIDs allowed in pairing mode ("*" for everyone)
+    dmPolicy?: 'open' | 'pairing' | 'disabled';
+    blockedReply?: string; // Sent to blocked senders; empty string sends nothing
+    markdown?: Partial<MarkdownRenderOptions>;
+    debounceMs?: number;       // Messages sent within this window become one agent turn
+    busyPolicy?: BusyPolicy;   // What to do with messages that arrive while a turn is running
+}
+
+/**
+ * Settings of the `webhook-server` plugin entry (see configSchema in clawdbot.plugin.json)
+ */
+export interface WebhookServerConfig {
+    port?: number;
+    host?: string;
+    authToken?: string;
+    authTokens?: string[];
+    timeout?: number;          // Maximum time (ms) an agent task may run
+    outboundMediaDir?: string; // The only directory local reply files are read from
+    agentId?: string;
+    useNgrok?: boolean;
+    ngrokAuthToken?: string;
+    ngrokPort?: number;
+    ngrokRegion?: 'us' | 'eu' | 'au' | 'ap' | 'sa' | 'jp' | 'in';
+    connectionMode?: 'webhook' | 'websocket';
+    bridgeUrl?: string;        // Base URL of the WeChat bridge
+    pairingSecret?: string;    // The bridge's PAIRING_SECRET
+    publicUrl?: string;        // Public base URL of this gateway, without /webhook
+}
+
+/**
+ * Settings of the `webhook-server` plugin entry, or none
+ */
+export function resolvePluginConfig(cfg: ClawdbotConfig | null): WebhookServerConfig {
+    return cfg?.plugins?.entries?.['webhook-server']?.config || {};
+}
+
+/**
+ * Resolve the effective config of an account: account overrides on top of
+ * the channel-wide settings (`channels.wechat.config` is the older location
+ * of the channel-wide settings and is still honoured).
+ */
+export function resolveAccountConfig(cfg: ClawdbotConfig | null, accountId: string): WeChatConfig {
+    const channel = cfg?.channels?.wechat || {};
+    const account = findAccountEntry(cfg, accountId) || {};
+    const { accounts: _accounts, defaultAccount: _defaultAccount, config: legacy, ...channelWide } = channel;
+
+    return {
+        ...legacy,
+        ...channelWide,
+        ...account,
+        markdown: { ...legacy?.markdown, ...channelWide.markdown, ...account.markdown },
+    };
+}
+
+/**
+ * Display name of an account
+ */
+export function resolveAccountName(cfg: ClawdbotConfig | null, accountId: string): string {
+    return resolveAccountConfig(cfg, accountId).name || (accountId === DEFAULT_ACCOUNT_ID ? 'Default' : accountId);
+}
+
+/**
+ * Markdown rendering options for an account
+ */
+export function resolveMarkdownOptions(config: WeChatConfig): MarkdownRenderOptions {
+    return { ...DEFAULT_MARKDOWN_OPTIONS, ...config.markdown };
+}
+
+/**
+ * Debounce window and busy policy of an account
+ */
+export function resolveQueueOptions(config: WeChatConfig): QueueOptions {
+    return {
+        debounceMs: config.debounceMs ?? DEFAULT_QUEUE_OPTIONS.debounceMs,
+        busyPolicy: config.busyPolicy ?? DEFAULT_QUEUE_OPTIONS.busyPolicy,
+    };
+}
+
+/**
+ * Account IDs configured under `channels.wechat.accounts`, or just the default account
+ */
+export function listAccountIds(cfg: ClawdbotConfig | null): string[] {
+    const ids = Object.keys(cfg?.channels?.wechat?.accounts || {}).map(id => normalizeAccountId(id));
+    return ids.length > 0 ? [...new Set(ids)].sort() : [DEFAULT_ACCOUNT_ID];
+}
+
+/**
+ * `channels.wechat.defaultAccount` if it exists, otherwise the default or first account
+ */
+export function resolveDefaultAccountId(cfg: ClawdbotConfig | null): string {
+    const ids = listAccountIds(cfg);
+    const preferred = cfg?.channels?.wechat?.defaultAccount;
+    if (preferred && ids.includes(normalizeAccountId(preferred))) return normalizeAccountId(preferred);
+    return ids.includes(DEFAULT_ACCOUNT_ID) ? DEFAULT_ACCOUNT_ID : ids[0];
+}
+
+function findAccountEntry(cfg: ClawdbotConfig | null, accountId: string): WeChatConfig | undefined {
+    const accounts: Record<string, WeChatConfig> = cfg?.channels?.wechat?.accounts || {};
+    const key = Object.keys(accounts).find(id => normalizeAccountId(id) === accountId);
+    return key !== undefined ? accounts[key] : undefined;
+}
+
+/**
+ * Bearer tokens that identify an account.
+ * An account's own tokens always count; the default account also accepts the
+ * channel-wide tokens and those of the webhook-server plugin entry.
+ */
+export function resolveAccountTokens(cfg: ClawdbotConfig | null, accountId: string): string[] {
+    const tokens = resolveAuthTokens(findAccountEntry(cfg, accountId) || {});
+    if (accountId === resolveDefaultAccountId(cfg)) {
+        const channel = cfg?.channels?.wechat || {};
+        tokens.push(
+            ...resolveAuthTokens(channel.config || {}),
+            ...resolveAuthTokens(channel),
+            ...resolveAuthTokens(resolvePluginConfig(cfg))
+        );
+    }
+    return [...new Set(tokens)];
+}
+
+/**
+ * Account a webhook request belongs to: named in the path (`/webhook/<accountId>`)
+ * or, on the plain `/webhook` path, the account whose token was presented
+ */
+export type AccountMatch =
+    | { ok: true; accountId: string; tokenId: string }
+    | { ok: false; status: 401 | 403 | 404; reason: string };
+
+export function matchRequestAccount(
+    cfg: ClawdbotConfig | null,
+    req: IncomingMessage,
+    pathAccountId?: string
+): AccountMatch {
+    const known = listAccountIds(cfg);
+    let candidates = known;
+
+    if (pathAccountId) {
+        const accountId = normalizeAccountId(pathAccountId);
+        if (!known.includes(accountId)) {
+            return { ok: false, status: 404, reason: `Unknown account ${accountId}` };
+        }
+        candidates = [accountId];
+    } else {
+        // Try the default account first so shared tokens resolve to it
+        const defaultId = resolveDefaultAccountId(cfg);
+        candidates = [defaultId, ...known.filter(id => id !== defaultId)];
+    }
+
+    let failure: AccountMatch | null = null;
+    for (const accountId of candidates) {
+        const auth = authenticateRequest(req, resolveAccountTokens(cfg, accountId));
+        if (auth.ok) {
+            if (resolveAccountConfig(cfg, accountId).enabled === false) {
+                return { ok: false, status: 403, reason: `Account ${accountId} is disabled` };
+            }
+            return { ok: true, accountId, tokenId: auth.tokenId };
+        }
+        // Report "wrong token" over "no token configured" when accounts disagree
+        if (!failure || auth.status === 403) {
+            failure = auth;
+        }
+    }
+    return failure || { ok: false, status: 401, reason: 'No auth token configured on the plugin' };
+}
+
+/**
+ * Whether an account can accept requests (it has at least one auth token)
+ */
+export function isAccountConfigured(cfg: ClawdbotConfig | null, accountId: string): boolean {
+    return resolveAccountTokens(cfg, accountId).length > 0;
+}
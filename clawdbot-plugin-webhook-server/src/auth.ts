@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import { IncomingMessage } from 'http';
+
+/**
+ * Result of authenticating an incoming webhook request
+ */
+export type AuthResult =
+    | { ok: true; tokenId: string }
+    | { ok: false; status: 401 | 403; reason: string };
+
+/**
+ * Short, non-reversible identifier for a token (safe to log)
+ */
+export function tokenFingerprint(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex').slice(0, 8);
+}
+
+/**
+ * Collect every accepted token from the plugin config.
+ * `authToken` is the primary token; `authTokens` holds extra tokens
+ * so a new one can be rolled out before the old one is removed.
+ */
+export function resolveAuthTokens(pluginConfig: { authToken?: unknown; authTokens?: unknown }): string[] {
+    const tokens: string[] = [];
+    if (typeof pluginConfig.authToken === 'string') {
+        tokens.push(pluginConfig.authToken);
+    }
+    if (Array.isArray(pluginConfig.authTokens)) {
+        for (const token of pluginConfig.authTokens) {
+            if (typeof token === 'string') tokens.push(token);
+        }
+    }
+    return [...new Set(tokens.map(t => t.trim()).filter(Boolean))];
+}
+
+/**
+ * Constant-time string comparison (hashing first so lengths always match)
+ */
+export function safeEqual(a: string, b: string): boolean {
+    const ha = crypto.createHash('sha256').update(a).digest();
+    const hb = crypto.createHash('sha256').update(b).digest();
+    return crypto.timingSafeEqual(ha, hb);
+}
+
+/**
+ * Extract the bearer token from the Authorization header
+ */
+function readBearerToken(req: IncomingMessage): string | null {
+    const header = req.headers['authorization'];
+    if (typeof header !== 'string') return null;
+    const match = header.match(/^Bearer\s+(\S+)\s*$/i);
+    return match ? match[1] : null;
+}
+
+/**
+ * Check the request's bearer token against the accepted tokens.
+ * Every candidate is compared so timing does not reveal which one matched.
+ */
+export function authenticateRequest(req: IncomingMessage, validTokens: string[]): AuthResult {
+    if (validTokens.length === 0) {
+        return { ok: false, status: 401, reason: 'No auth token configured on the plugin' };
+    }
+
+    const provided = readBearerToken(req);
+    if (!provided) {
+        return { ok: false, status: 401, reason: 'Missing or malformed Authorization header' };
+    }
+
+    let matched: string | null = null;
+    for (const token of validTokens) {
+        if (safeEqual(provided, token) && matched === null) {
+            matched = token;
+        }
+    }
+
+    if (matched === null) {
+        return { ok: false, status: 403, reason: 'Invalid auth token' };
+    }
+    return { ok: true, tokenId: tokenFingerprint(matched) };
+}
+
+/**
+ * Build the headers for a signed callback to the bridge.
+ * Signed string: timestamp \n nonce \n taskId \n rawBody (HMAC-SHA256, hex)
+ */
+export function signCallback(secret: string, taskId: string, rawBody: string): Record<string, string> {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const signature = crypto
+        .createHmac('sha256', secret)
+        .update(`${timestamp}\n${nonce}\n${taskId}\n${rawBody}`)
+        .digest('hex');
+    return {
+        'X-Clawdbot-Task-Id': taskId,
+        'X-Clawdbot-Timestamp': timestamp,
+        'X-Clawdbot-Nonce': nonce,
+        'X-Clawdbot-Signature': signature,
+    };
+}
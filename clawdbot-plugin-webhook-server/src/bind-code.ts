@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+import axios from 'axios';
+
+/**
+ * One-time bind codes that link a WeChat user to this instance.
+ *
+ * A code is registered with the bridge together with how to reach us and our
+ * token; the user then sends `bind <code>` in WeChat. Before the bridge saves
+ * the binding it calls back with the code and a challenge, and we answer with
+ * HMAC-SHA256(code, challenge), proving we issued the code and accept the token.
+ * The bridge can also wrap the code in a temporary QR code; scanning it binds
+ * just like sending the command.
+ */
+
+export interface BindCodeRegistration {
+    transport: 'http' | 'ws';
+    endpoint?: string; // Public webhook URL (http transport only)
+    token: string;
+    accountName: string;
+    version: string;
+    qr?: boolean; // Ask the bridge for a QR code that binds whoever scans it
+    app?: string; // Bridge account (official account) the QR code is for
+}
+
+/**
+ * An issued code, with the QR code if one was requested
+ */
+export interface IssuedBindCode {
+    code: string;
+    expiresAt: number;
+    qrImageUrl?: string;
+    qrContent?: string;
+    qrError?: string;
+}
+
+export const BIND_CODE_TTL_SECONDS = 300;
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I
+const CODE_LENGTH = 8;
+const REGISTER_ATTEMPTS = 3;
+
+// Codes we issued and the bridge may still confirm
+const pendingCodes = new Map<string, { accountId: string; expiresAt: number }>();
+
+function generateCode(): string {
+    let code = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+        code += CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)];
+    }
+    return code;
+}
+
+/**
+ * URL of the bridge's code registration endpoint (accepts http(s) or ws(s) bridge URLs)
+ */
+function toPairUrl(bridgeUrl: string): string {
+    const url = new URL(bridgeUrl);
+    if (url.protocol === 'ws:') url.protocol = 'http:';
+    if (url.protocol === 'wss:') url.protocol = 'https:';
+    url.pathname = '/pair';
+    url.search = '';
+    return url.toString();
+}
+
+/**
+ * Generate a code for an account and register it with the bridge.
+ * Retries with a fresh code if the bridge already knows the one we picked.
+ */
+export async function issueBindCode(
+    bridgeUrl: string,
+    pairingSecret: string,
+    accountId: string,
+    registration: BindCodeRegistration
+): Promise<IssuedBindCode> {
+    const now = Date.now();
+    for (const [code, entry] of pendingCodes) {
+        if (entry.expiresAt <= now) pendingCodes.delete(code);
+    }
+
+    for (let attempt = 1; attempt <= REGISTER_ATTEMPTS; attempt++) {
+        const code = generateCode();
+        const response = await axios.post(toPairUrl(bridgeUrl), {
+            code,
+            transport: registration.transport,
+            endpoint: registration.endpoint,
+            token: registration.token,
+            account_name: registration.accountName,
+            plugin_version: registration.version,
+            expires_in: BIND_CODE_TTL_SECONDS,
+            qr: registration.qr || undefined,
+            app: registration.app,
+        }, {
+            headers: { Authorization: `Bearer ${pairingSecret}` },
+            timeout: 10000,
+            validateStatus: () => true
+        });
+
+        if (response.status === 409) continue;
+        if (response.status < 200 || response.status >= 300) {
+            throw new Error(`Bridge rejected the bind code (HTTP ${response.status}: ${response.data?.error || 'no details'})`);
+        }
+
+        const ttl = Number(response.data?.expires_in) || BIND_CODE_TTL_SECONDS;
+        const expiresAt = Date.now() + ttl * 1000;
+        pendingCodes.set(code, { accountId, expiresAt });
+        return {
+            code,
+            expiresAt,
+            qrImageUrl: response.data?.qr?.image_url,
+            qrContent: response.data?.qr?.url,
+            qrError: response.data?.qr_error,
+        };
+    }
+    throw new Error('Could not register a unique bind code with the bridge');
+}
+
+/**
+ * Answer the bridge's confirmation of a code (each code is confirmed once).
+ * Returns the proof, or null if we did not issue the code for this account.
+ */
+export function confirmBindCode(code: string, challenge: string, accountId: string): string | null {
+    const entry = pendingCodes.get(code);
+    if (!entry || entry.accountId !== accountId || entry.expiresAt <= Date.now() || !challenge) {
+        return null;
+    }
+    pendingCodes.delete(code);
+    return crypto.createHmac('sha256', code).update(challenge).digest('hex');
+}
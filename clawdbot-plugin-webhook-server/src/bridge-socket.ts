@@ -0,0 +1,197 @@
+import WebSocket from 'ws';
+
+/**
+ * Outbound-only connection to the bridge.
+ * The plugin dials the bridge, so it needs no public URL or tunnel:
+ * tasks arrive over the socket and replies go back the same way.
+ * Each account has its own socket, authenticated with the account's token.
+ */
+
+interface Logger {
+    info: (msg: string) => void;
+    warn: (msg: string) => void;
+    error: (msg: string) => void;
+}
+
+export interface BridgeSocketOptions {
+    url: string;     // Bridge base URL (http(s)://...) or socket URL (ws(s)://.../ws)
+    token: string;   // Token the user bound with
+    version: string; // Plugin version, reported to the bridge
+    onTask: (payload: unknown) => void;
+    onRequest: (payload: Record<string, unknown>) => object | Promise<object>; // Requests other than tasks, answered on the socket
+    logger: Logger;
+}
+
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+const HEARTBEAT_TIMEOUT_MS = 75000; // Bridge pings every 30s
+const OUTBOX_MAX = 100;
+
+export interface BridgeSocket {
+    /** Connect now instead of waiting out the backoff, e.g. once the bridge will accept our token */
+    reconnect(): void;
+    /** Send a message to the bridge, buffering it while the socket is down */
+    send(message: object): void;
+    /** Close the connection and stop reconnecting */
+    stop(): void;
+}
+
+/**
+ * Turn a bridge base URL into its WebSocket endpoint
+ */
+export function toSocketUrl(bridgeUrl: string): string {
+    const url = new URL(bridgeUrl);
+    if (url.protocol === 'http:') url.protocol = 'ws:';
+    if (url.protocol === 'https:') url.protocol = 'wss:';
+    if (url.pathname === '/' || url.pathname === '') url.pathname = '/ws';
+    return url.toString();
+}
+
+/**
+ * Open a connection to the bridge (reconnects automatically)
+ */
+export function startBridgeSocket(options: BridgeSocketOptions): BridgeSocket {
+    const { url, token, version, onTask, onRequest, logger } = options;
+
+    let stopped = false;
+    let socket: WebSocket | null = null;
+    let authenticated = false;
+    let backoff = INITIAL_BACKOFF_MS;
+    let reconnectTimer: NodeJS.Timeout | null = null;
+    let heartbeatTimer: NodeJS.Timeout | null = null;
+
+    // Messages produced while the socket is down, sent once we reconnect
+    const outbox: string[] = [];
+
+    function resetHeartbeat(): void {
+        if (heartbeatTimer) clearTimeout(heartbeatTimer);
+        heartbeatTimer = setTimeout(() => {
+            logger.warn('Bridge socket heartbeat timed out, reconnecting');
+            socket?.terminate();
+        }, HEARTBEAT_TIMEOUT_MS);
+    }
+
+    function scheduleReconnect(): void {
+        if (stopped || reconnectTimer) return;
+
+        // Exponential backoff with jitter
+        const delay = Math.round(backoff * (0.5 + Math.random() / 2));
+        backoff = Math.min(backoff * 2, MAX_BACKOFF_MS);
+
+        logger.info(`Reconnecting to bridge in ${delay}ms`);
+        reconnectTimer = setTimeout(() => {
+            reconnectTimer = null;
+            connect();
+        }, delay);
+    }
+
+    function flushOutbox(): void {
+        while (outbox.length > 0 && socket && authenticated && socket.readyState === WebSocket.OPEN) {
+            socket.send(outbox.shift()!);
+        }
+    }
+
+    function connect(): void {
+        if (stopped) return;
+
+        const ws = new WebSocket(toSocketUrl(url));
+        socket = ws;
+        authenticated = false;
+
+        ws.on('open', () => {
+            logger.info('Connected to bridge, authenticating...');
+            ws.send(JSON.stringify({ type: 'auth', token, version }));
+            resetHeartbeat();
+        });
+
+        ws.on('ping', resetHeartbeat);
+
+        ws.on('message', (raw) => {
+            resetHeartbeat();
+
+            let message: { type?: string; id?: string; payload?: unknown; error?: string };
+            try {
+                message = JSON.parse(raw.toString());
+            } catch {
+                logger.warn('Ignoring malformed message from bridge');
+                return;
+            }
+
+            switch (message.type) {
+                case 'auth_ok':
+                    authenticated = true;
+                    backoff = INITIAL_BACKOFF_MS;
+                    logger.info('Bridge socket authenticated');
+                    flushOutbox();
+                    break;
+                case 'task':
+                    onTask(message.payload);
+                    break;
+                case 'request': {
+                    const id = message.id;
+                    Promise.resolve()
+                        .then(() => onRequest((message.payload || {}) as Record<string, unknown>))
+                        .then(
+                            (payload) => ({ type: 'response', id, payload }),
+                            (err) => ({ type: 'response', id, error: err instanceof Error ? err.message : String(err) })
+                        )
+                        .then((response) => {
+                            if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(response));
+                        });
+                    break;
+                }
+                case 'error':
+                    logger.warn(`Bridge reported an error: ${message.error}`);
+                    break;
+            }
+        });
+
+        ws.on('close', (code, reason) => {
+            if (heartbeatTimer) clearTimeout(heartbeatTimer);
+            if (socket === ws) {
+                socket = null;
+                authenticated = false;
+            }
+            logger.warn(`Bridge socket closed (${code}${reason.length ? `: ${reason.toString()}` : ''})`);
+            scheduleReconnect();
+        });
+
+        ws.on('error', (err) => {
+            logger.error(`Bridge socket error: ${err.message}`);
+        });
+    }
+
+    connect();
+
+    return {
+        reconnect() {
+            if (stopped || authenticated) return;
+            backoff = INITIAL_BACKOFF_MS;
+            if (reconnectTimer) {
+                clearTimeout(reconnectTimer);
+                reconnectTimer = null;
+                connect();
+            }
+        },
+
+        send(message) {
+            outbox.push(JSON.stringify(message));
+            if (outbox.length > OUTBOX_MAX) {
+                outbox.shift();
+                logger.warn('Bridge outbox full, dropped the oldest message');
+            }
+            flushOutbox();
+        },
+
+        stop() {
+            stopped = true;
+            if (reconnectTimer) clearTimeout(reconnectTimer);
+            if (heartbeatTimer) clearTimeout(heartbeatTimer);
+            reconnectTimer = null;
+            heartbeatTimer = null;
+            socket?.close();
+            socket = null;
+            authenticated = false;
+        },
+    };
+}
@@ -34,9 +34,10 @@ declare module 'clawdbot/plugin-sdk' {
                     ctx: any;
                     cfg: any;
                     dispatcherOptions: {
-                        deliver: (payload: { text?: string }) => Promise<void>;
+                        deliver: (payload: { text?: string; mediaUrl?: string; mediaUrls?: string[] }) => Promise<void>;
                         onError: (err: unknown, info: { kind: string }) => void;
                     };
+                    abortSignal?: AbortSignal;
                 }) => Promise<void>;
             };
             session?: {
@@ -44,6 +45,15 @@ declare module 'clawdbot/plugin-sdk' {
                 resolveStorePath?: (store: any, params: { agentId?: string }) => string;
                 recordInboundSession?: (params: any) => Promise<void>;
             };
+            pairing?: {
+                readAllowFromStore?: (channel: string) => Promise<string[]>;
+                upsertPairingRequest?: (params: {
+                    channel: string;
+                    id: string;
+                    meta?: Record<string, string>;
+                }) => Promise<{ code: string; created: boolean }>;
+                buildPairingReply?: (params: { channel: string; idLine: string; code: string }) => string;
+            };
             [key: string]: unknown;
         };
         [key: string]: unknown;
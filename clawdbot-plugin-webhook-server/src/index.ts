@@ -3,8 +3,7 @@ import type {
     ChannelPlugin,
     ChannelDock,
     ClawdbotConfig,
-    PluginRuntime,
-    MarkdownTableMode
+    PluginRuntime
 } from 'clawdbot/plugin-sdk';
 import {
     emptyPluginConfigSchema,
@@ -15,31 +14,101 @@ import {
 import axios from 'axios';
 import { IncomingMessage, ServerResponse } from 'http';
 import { setRuntime, getRuntime } from './runtime.js';
+import { resolveAuthTokens, signCallback } from './auth.js';
+import { startBridgeSocket, BridgeSocket } from './bridge-socket.js';
+import { issueBindCode, confirmBindCode, BindCodeRegistration } from './bind-code.js';
+import { PLUGIN_VERSION } from './version.js';
+import { downloadAttachments, InboundAttachment } from './media.js';
+import { encodeOutboundMedia, OutboundMedia, DEFAULT_OUTBOUND_MEDIA_DIR } from './outbound-media.js';
+import { renderMarkdownForWeChat } from './markdown.js';
+import {
+    resolveAccountConfig,
+    resolveMarkdownOptions,
+    resolveQueueOptions,
+    listAccountIds,
+    resolveDefaultAccountId,
+    resolveAccountName,
+    resolveAccountTokens,
+    matchRequestAccount,
+    isAccountConfigured,
+    resolvePluginConfig,
+    WebhookServerConfig,
+    WeChatConfig
+} from './accounts.js';
+import { checkSenderAccess, formatAllowFrom, normalizeAllowEntry, DEFAULT_DM_POLICY } from './policy.js';
+import { senderKey, beginRun, cancelRuns, resolveSessionKey, rotateSessionKey } from './session-control.js';
+import { createSessionQueue, UNMERGED_QUEUE_OPTIONS } from './session-queue.js';
 import { z } from 'zod';
 import ngrok from 'ngrok';
 
 // --- Types ---
 
-interface WeChatConfig {
-    authToken?: string;
-    callbackUrl?: string; // Optional default callback URL
-    allowFrom?: string[];
-    dmPolicy?: 'open' | 'pairing' | 'disabled';
-}
-
 interface WebhookPayload {
     task: string;
     callback_url?: string; // The bridge might send this
+    task_id?: string; // Identifies the task in signed callbacks
+    callback_secret?: string; // HMAC key for signing callbacks
+    attachments?: InboundAttachment[]; // Images, voice and video from the user
     metadata?: {
         openid?: string;
         msg_type?: string;
         msg_id?: string;
         timestamp?: number;
         nickname?: string;
+        reply_mode?: 'sync'; // Each message needs a reply of its own: no debounce or merging
         [key: string]: unknown;
     };
 }
 
+/**
+ * Sent by the bridge instead of a task when the user sends /reset or /cancel.
+ * Acknowledged through the callback like a reply.
+ */
+interface ControlPayload {
+    control: 'reset' | 'cancel';
+    callback_url?: string;
+    task_id?: string;
+    callback_secret?: string;
+    metadata?: WebhookPayload['metadata'];
+}
+
+/**
+ * How the task reached us, and therefore how replies go back:
+ * http - signed POST to the callback URL
+ * ws   - over the plugin's socket to the bridge
+ */
+type ReplyTransport = 'http' | 'ws';
+
+/**
+ * Where the last message from a sender came from, so we can message them
+ * outside of a reply (e.g. to confirm a pairing approval). Keyed by
+ * senderKey: an openid only means something within its official account.
+ */
+interface ReplyTarget {
+    payload: WebhookPayload;
+    transport: ReplyTransport;
+    callbackUrl?: string;
+    accountId: string;
+}
+
+const replyTargets = new Map<string, ReplyTarget>();
+
+/**
+ * Requests the bridge makes outside of tasks, over HTTP or the socket
+ */
+type BridgeRequest =
+    | { type: 'ping'; nonce?: string } // Reachability check, answered with the nonce
+    | { type: 'pair_confirm'; code?: string; challenge?: string };
+
+// Identifies this plugin in answers to the bridge's ping
+const PLUGIN_ID = 'clawdbot-wechat';
+
+// Public URL of the ngrok tunnel, once it is up
+let _ngrokUrl: string | null = null;
+
+// Websocket mode: the connection to the bridge of each account
+const bridgeSockets = new Map<string, BridgeSocket>();
+
 // --- Runtime Helper ---
 
 type CoreRuntime = PluginRuntime;
@@ -71,27 +140,69 @@ async function handleWebhookRequest(req: IncomingMessage, res: ServerResponse):
     // The bridge might send to /, so we check method.
     if (req.method !== 'POST') return false;
 
-    // Simple path check - in a real plugin we might want configurable paths
-    if (req.url && !req.url.endsWith('/webhook') && req.url !== '/') return false;
+    // Simple path check: /webhook, /webhook/<accountId> or /
+    // (plus /webhook[/<accountId>]/bind-code to request a bind code)
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    const bindCodeMatch = pathname.match(/\/webhook(?:\/([^/]+))?\/bind-code\/?$/);
+    const pathMatch = bindCodeMatch || pathname.match(/\/webhook(?:\/([^/]+))?\/?$/);
+    if (!pathMatch && pathname !== '/') return false;
+
+    // Authenticate (and pick the account) before touching the body
+    const auth = matchRequestAccount(_globalConfig, req, pathMatch?.[1] && decodeURIComponent(pathMatch[1]));
+    if (!auth.ok) {
+        console.warn(`Rejected webhook request from ${req.socket.remoteAddress}: ${auth.reason}`);
+        res.statusCode = auth.status;
+        if (auth.status === 401) {
+            res.setHeader('WWW-Authenticate', 'Bearer');
+        }
+        res.end(JSON.stringify({ error: auth.reason }));
+        return true;
+    }
+
+    if (bindCodeMatch) {
+        await handleBindCodeRequest(req, res, auth.accountId);
+        return true;
+    }
 
     try {
-        const body = await readJsonBody(req) as WebhookPayload;
+        const body = await readJsonBody(req) as WebhookPayload | ControlPayload | BridgeRequest;
+
+        if ('type' in body && (body.type === 'ping' || body.type === 'pair_confirm')) {
+            const answer = answerBridgeRequest(body, auth.accountId);
+            res.statusCode = answer.ok ? 200 : 404;
+            res.end(JSON.stringify(answer));
+            return true;
+        }
+
+        if ('control' in body) {
+            if (body.control !== 'reset' && body.control !== 'cancel') {
+                res.statusCode = 400;
+                res.end(JSON.stringify({ error: `Unknown control ${String(body.control)}` }));
+                return true;
+            }
+            res.statusCode = 202;
+            res.end(JSON.stringify({ status: 'accepted' }));
+            handleControlPayload(body, 'http', auth.accountId).catch(err => {
+                console.error('Control handling error:', err);
+            });
+            return true;
+        }
 
         // Basic Validation
-        if (!body.task) {
+        if (!('task' in body) || !body.task) {
             res.statusCode = 400;
             res.end(JSON.stringify({ error: 'Missing task' }));
             return true;
         }
 
+        console.log(`Webhook request accepted (account ${auth.accountId}, token ${auth.tokenId}, openid ${body.metadata?.openid || 'unknown'})`);
+
         // We accept the request immediately
         res.statusCode = 202;
         res.end(JSON.stringify({ status: 'accepted' }));
 
-        // Process in background
-        processMessageWithPipeline(body).catch(err => {
-            console.error('Pipeline processing error:', err);
-        });
+        // Process in background, one turn at a time per sender
+        enqueueTask(body, 'http', auth.accountId);
 
         return true;
     } catch (err) {
@@ -102,13 +213,235 @@ async function handleWebhookRequest(req: IncomingMessage, res: ServerResponse):
     }
 }
 
+// --- Binding ---
+
+/**
+ * How the bridge should reach an account once a user binds to it
+ */
+function resolveBindRegistration(webhookConfig: WebhookServerConfig, accountId: string): BindCodeRegistration {
+    const registration = {
+        accountName: resolveAccountName(_globalConfig, accountId),
+        version: PLUGIN_VERSION,
+    };
+
+    if (webhookConfig.connectionMode === 'websocket') {
+        if (!bridgeSockets.has(accountId)) {
+            throw new Error(`Account ${accountId} has no bridge socket; give it an authToken of its own`);
+        }
+        return { ...registration, transport: 'ws', token: resolveSocketToken(webhookConfig, accountId)! };
+    }
+
+    const publicUrl = webhookConfig.publicUrl || _ngrokUrl;
+    if (!publicUrl) {
+        throw new Error('Set publicUrl (or enable ngrok) so the bridge can reach this webhook');
+    }
+    const [token] = resolveAccountTokens(_globalConfig, accountId);
+    if (!token) throw new Error(`No auth token configured for account ${accountId}`);
+
+    const accountPath = accountId === resolveDefaultAccountId(_globalConfig) ? '' : `/${encodeURIComponent(accountId)}`;
+    const endpoint = `${String(publicUrl).replace(/\/+$/, '')}/webhook${accountPath}`;
+    return { ...registration, transport: 'http', endpoint, token };
+}
+
+/**
+ * POST /webhook[/<accountId>]/bind-code - issue a one-time code the user sends as `bind <code>`
+ * Body (optional): { "qr": true, "app": "<bridge account>" } to also get a QR code to scan
+ */
+async function handleBindCodeRequest(req: IncomingMessage, res: ServerResponse, accountId: string): Promise<void> {
+    const webhookConfig = resolvePluginConfig(_globalConfig);
+    res.setHeader('Content-Type', 'application/json');
+
+    let registration: BindCodeRegistration;
+    try {
+        if (!webhookConfig.bridgeUrl) throw new Error('bridgeUrl is not configured');
+        if (!webhookConfig.pairingSecret) throw new Error('pairingSecret is not configured');
+        const options = await readJsonBody(req).catch(() => {
+            throw new Error('Invalid JSON body');
+        }) as { qr?: boolean; app?: string };
+        registration = {
+            ...resolveBindRegistration(webhookConfig, accountId),
+            qr: options.qr === true,
+            app: typeof options.app === 'string' ? options.app : undefined,
+        };
+    } catch (err) {
+        res.statusCode = 400;
+        res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }));
+        return;
+    }
+
+    try {
+        const issued = await issueBindCode(webhookConfig.bridgeUrl, webhookConfig.pairingSecret, accountId, registration);
+        const { code, expiresAt } = issued;
+        console.log(`Issued WeChat bind code for account ${accountId}, valid until ${new Date(expiresAt).toISOString()}`);
+        if (registration.transport === 'ws') {
+            // The bridge now accepts our token, no need to wait for the next retry
+            bridgeSockets.get(accountId)?.reconnect();
+        }
+        res.statusCode = 201;
+        res.end(JSON.stringify({
+            code,
+            command: `bind ${code}`,
+            expires_at: new Date(expiresAt).toISOString(),
+            qr_image_url: issued.qrImageUrl,
+            qr_content: issued.qrContent,
+            qr_error: issued.qrError
+        }));
+    } catch (err) {
+        console.error('Failed to register bind code with the bridge:', err instanceof Error ? err.message : err);
+        res.statusCode = 502;
+        res.end(JSON.stringify({ error: err instanceof Error ? err.message : String(err) }));
+    }
+}
+
+/**
+ * Answer a request from the bridge for an account
+ */
+function answerBridgeRequest(request: BridgeRequest, accountId: string): Record<string, unknown> {
+    if (request.type === 'ping') {
+        return { ok: true, pong: request.nonce, plugin: PLUGIN_ID, version: PLUGIN_VERSION };
+    }
+    if (request.type === 'pair_confirm') {
+        const proof = confirmBindCode(String(request.code || ''), String(request.challenge || ''), accountId);
+        if (!proof) {
+            console.warn(`Bridge asked to confirm an unknown or expired bind code for account ${accountId}`);
+            return { ok: false, error: 'Unknown or expired bind code' };
+        }
+        console.log(`Confirmed bind code for account ${accountId}`);
+        return {
+            ok: true,
+            proof,
+            account_name: resolveAccountName(_globalConfig, accountId),
+            plugin_version: PLUGIN_VERSION
+        };
+    }
+    return { ok: false, error: `Unsupported request ${String((request as { type?: unknown }).type)}` };
+}
+
+// --- Queue ---
+
+/**
+ * A task waiting for its sender's previous turn (or the debounce window)
+ */
+interface QueuedTask {
+    payload: WebhookPayload;
+    transport: ReplyTransport;
+    accountId: string;
+}
+
+const taskQueue = createSessionQueue<QueuedTask>({
+    merge: mergeQueuedTasks,
+    run: (_key, queued) => processMessageWithPipeline(queued.payload, queued.transport, queued.accountId),
+    interrupt: (key) => {
+        cancelRuns(key, 'Interrupted by a newer message');
+    },
+});
+
+function enqueueTask(
+    payload: WebhookPayload,
+    transport: ReplyTransport,
+    accountId: string = resolveDefaultAccountId(_globalConfig)
+) {
+    const senderId = payload.metadata?.openid || 'unknown_user';
+    // In sync reply mode the bridge answers each WeChat message with its own task's reply
+    const options = payload.metadata?.reply_mode === 'sync'
+        ? UNMERGED_QUEUE_OPTIONS
+        : resolveQueueOptions(resolveAccountConfig(_globalConfig, accountId));
+    taskQueue.push(senderKey(accountId, senderId), { payload, transport, accountId }, options);
+}
+
+/**
+ * Combine tasks into one turn: the texts in order, all attachments,
+ * and the latest task's callback details (that is the task we answer)
+ */
+function mergeQueuedTasks(tasks: QueuedTask[]): QueuedTask {
+    const latest = tasks[tasks.length - 1];
+    if (tasks.length === 1) return latest;
+
+    const attachments = tasks.flatMap(queued => queued.payload.attachments || []);
+    return {
+        ...latest,
+        payload: {
+            ...latest.payload,
+            task: tasks.map(queued => queued.payload.task).join('\n'),
+            attachments: attachments.length > 0 ? attachments : undefined,
+        },
+    };
+}
+
+// --- Bridge Sockets ---
+
+/**
+ * Token an account's socket authenticates with. The default account keeps
+ * the plugin-level token; other accounts need one of their own, since the
+ * bridge tells sockets (and so accounts) apart by token.
+ */
+function resolveSocketToken(webhookConfig: WebhookServerConfig, accountId: string): string | undefined {
+    if (accountId === resolveDefaultAccountId(_globalConfig)) {
+        return resolveAuthTokens(webhookConfig)[0] || resolveAccountTokens(_globalConfig, accountId)[0];
+    }
+    return resolveAccountTokens(_globalConfig, accountId)[0];
+}
+
+/**
+ * Websocket mode: dial the bridge once per enabled account
+ */
+function startBridgeSockets(api: ClawdbotPluginApi, webhookConfig: WebhookServerConfig): void {
+    if (!webhookConfig.bridgeUrl) {
+        api.logger.error('connectionMode is "websocket" but bridgeUrl is missing');
+        return;
+    }
+
+    const usedTokens = new Map<string, string>();
+    for (const accountId of listAccountIds(_globalConfig)) {
+        if (resolveAccountConfig(_globalConfig, accountId).enabled === false) continue;
+
+        const token = resolveSocketToken(webhookConfig, accountId);
+        if (!token) {
+            api.logger.error(`Account ${accountId} has no authToken, so it cannot connect to the bridge`);
+            continue;
+        }
+        if (usedTokens.has(token)) {
+            api.logger.error(`Account ${accountId} shares its authToken with account ${usedTokens.get(token)}; ` +
+                'in websocket mode every account needs its own token, so it is not connected');
+            continue;
+        }
+        usedTokens.set(token, accountId);
+
+        const prefix = `[${accountId}] `;
+        bridgeSockets.set(accountId, startBridgeSocket({
+            url: webhookConfig.bridgeUrl,
+            token,
+            version: PLUGIN_VERSION,
+            logger: {
+                info: (msg) => api.logger.info(prefix + msg),
+                warn: (msg) => api.logger.warn(prefix + msg),
+                error: (msg) => api.logger.error(prefix + msg),
+            },
+            onTask: (task) => {
+                const control = task as ControlPayload;
+                if (control?.control === 'reset' || control?.control === 'cancel') {
+                    handleControlPayload(control, 'ws', accountId).catch(err => {
+                        console.error('Control handling error:', err);
+                    });
+                    return;
+                }
+                const payload = task as WebhookPayload;
+                if (!payload?.task) return;
+                enqueueTask(payload, 'ws', accountId);
+            },
+            onRequest: (request) => answerBridgeRequest(request as unknown as BridgeRequest, accountId)
+        }));
+    }
+}
+
 // --- Pipeline ---
 
-async function processMessageWithPipeline(payload: WebhookPayload) {
+async function processMessageWithPipeline(
+    payload: WebhookPayload,
+    transport: ReplyTransport = 'http',
+    accountId: string = resolveDefaultAccountId(_globalConfig)
+) {
     const core = getRuntime();
-    // Assuming single-tenant/default account for now as per original code
-    // In a full implementation, we'd resolve the account based on the request (e.g. auth token)
-    const accountId = DEFAULT_ACCOUNT_ID;
 
     // We need access to the config. 
     // Since we don't have the full config object passed in, we might need to fetch it from runtime or similar.
@@ -124,47 +457,37 @@ async function processMessageWithPipeline(payload: WebhookPayload) {
     // WORKAROUND: We will store the latest config in a global variable when the plugin is loaded/reloaded.
 
     const config = _globalConfig || {};
+    const accountConfig = resolveAccountConfig(_globalConfig, accountId);
 
     const senderId = payload.metadata?.openid || 'unknown_user';
     const senderName = payload.metadata?.nickname || `User ${senderId.slice(0, 4)}`;
     const text = payload.task;
     const chatId = senderId; // For DM, chat ID is usually user ID
 
-    // Construct IDs
-    const fromLabel = `wechat:${senderId}`;
+    const callbackUrl = payload.callback_url || accountConfig.callbackUrl;
+    replyTargets.set(senderKey(accountId, senderId), { payload, transport, callbackUrl, accountId });
 
-    // Authorization / Pairing Logic
-    // Simplified: Check allowFrom list
-    // In a full implementation, follow Zalo's `isSenderAllowed` and `pairing` logic
+    // Authorization / Pairing Logic (dmPolicy + allowFrom)
+    const access = await checkSenderAccess(core, accountConfig, senderId, senderName);
+    if (!access.allowed) {
+        if (access.reply) {
+            await deliverWeChatReply({ text: access.reply, callbackUrl, originalPayload: payload, transport, accountId });
+        }
+        return;
+    }
 
     // Ensure config is not null
     const safeConfig = config || {};
 
-    const route = core.channel.routing?.resolveAgentRoute?.({
-        cfg: safeConfig,
-        channel: 'wechat',
-        accountId: accountId,
-        peer: { kind: 'dm', id: chatId }
-    }) || {
-        // Fallback if routing fails (e.g. config not updated)
-        agentId: (safeConfig as any)?.plugins?.entries?.['webhook-server']?.config?.agentId || 'default',
-        accountId: accountId,
-        sessionKey: `wechat:${senderId}`
-    };
+    const route = resolveSenderRoute(accountId, chatId);
 
-    if (!route) {
-        // Should not happen with fallback, but TS check
-        console.error('Failed to resolve agent route');
-        return;
-    }
-
-    const sessionKey = route.sessionKey || `wechat:${senderId}`;
+    // The routed key, with a suffix once the user has sent /reset
+    const sessionKey = resolveSessionKey(route.sessionKey);
 
     // Construct Context
     // We need to pass the callback_url through to the delivery phase.
     // We can use the 'Ctx' fields or `Originating...` fields if they allow custom data,
     // or rely on `InboundContext` having flexible fields.
-    const callbackUrl = payload.callback_url;
 
     // Get Store Path (using config.session?.store if available)
     // We try to access config.session from the global config
@@ -188,6 +511,9 @@ async function processMessageWithPipeline(payload: WebhookPayload) {
         body: text
     }) || text; // Fallback to raw text if formatter missing
 
+    // Hand media to the agent as local files (plus the original URLs)
+    const media = await downloadAttachments(payload.attachments || []);
+
     const ctxPayload = core.channel.reply?.finalizeInboundContext?.({
         Body: formattedBody,
         RawBody: text,
@@ -202,6 +528,12 @@ async function processMessageWithPipeline(payload: WebhookPayload) {
         SenderId: senderId,
         Provider: 'wechat',
         Surface: 'wechat',
+        MediaPath: media[0]?.path,
+        MediaUrl: media[0]?.url,
+        MediaType: media[0]?.mimeType,
+        MediaPaths: media.length > 0 ? media.map(m => m.path) : undefined,
+        MediaUrls: media.length > 0 ? media.map(m => m.url) : undefined,
+        MediaTypes: media.length > 0 ? media.map(m => m.mimeType) : undefined,
         // Pass callback_url here so we can retrieve it in deliver
         _CallbackUrl: callbackUrl,
     });
@@ -215,45 +547,250 @@ async function processMessageWithPipeline(payload: WebhookPayload) {
         ctx: ctxPayload
     });
 
-    // Dispatch
-    await core.channel.reply?.dispatchReplyWithBufferedBlockDispatcher?.({
-        ctx: ctxPayload,
-        cfg: config,
+    // Dispatch (/cancel and the task timeout abort the run; anything it still produces is dropped).
+    // The sender's next turn waits until an aborted dispatch has actually wound down.
+    const run = beginRun(senderKey(accountId, senderId));
+    const timeoutMs = resolveTaskTimeout();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        run.abort(`Timed out after ${timeoutMs}ms`);
+    }, timeoutMs);
+    const dispatch = dispatchWithSignal(ctxPayload, config, run.signal, {
+        deliver: async (deliverPayload: { text?: string; mediaUrl?: string; mediaUrls?: string[] }) => {
+            const mediaSources = [
+                ...(deliverPayload.mediaUrls || []),
+                ...(deliverPayload.mediaUrl ? [deliverPayload.mediaUrl] : [])
+            ];
+            await deliverWeChatReply({
+                text: deliverPayload.text
+                    ? renderMarkdownForWeChat(deliverPayload.text, resolveMarkdownOptions(accountConfig))
+                    : undefined,
+                media: [...new Set(mediaSources)],
+                callbackUrl,
+                originalPayload: payload,
+                transport,
+                accountId
+            });
+        },
+        onError: (err: unknown, info: { kind: string }) => {
+            console.error(`WeChat dispatch error (${info.kind}):`, err);
+        }
+    });
+    try {
+        await dispatch.done;
+        if (timedOut) {
+            console.warn(`Agent task for ${senderId} (account ${accountId}) timed out after ${timeoutMs}ms`);
+            await deliverWeChatReply({ text: formatTimeoutNotice(timeoutMs), callbackUrl, originalPayload: payload, transport, accountId });
+        }
+    } finally {
+        clearTimeout(timer);
+        await dispatch.settled;
+        run.end();
+    }
+}
+
+const DEFAULT_TASK_TIMEOUT_MS = 300000;
+
+/**
+ * How long an agent task may run (`timeout` of the webhook-server plugin entry)
+ */
+function resolveTaskTimeout(): number {
+    const timeout = Number(resolvePluginConfig(_globalConfig).timeout);
+    return Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_TASK_TIMEOUT_MS;
+}
+
+/**
+ * The only directory local files in replies are read from (`outboundMediaDir`)
+ */
+function resolveOutboundMediaDir(): string {
+    const dir = resolvePluginConfig(_globalConfig).outboundMediaDir;
+    return typeof dir === 'string' && dir.trim() ? dir.trim() : DEFAULT_OUTBOUND_MEDIA_DIR;
+}
+
+function formatTimeoutNotice(timeoutMs: number): string {
+    const limit = timeoutMs >= 60000 ? `${Math.round(timeoutMs / 60000)} 分钟` : `${Math.round(timeoutMs / 1000)} 秒`;
+    return `⌛ 任务超过 ${limit} 仍未完成，已停止处理。可以稍后重试，或发送 /reset 开始新的会话。`;
+}
+
+/**
+ * Agent and session a sender's messages are routed to (before /reset suffixes)
+ */
+function resolveSenderRoute(accountId: string, senderId: string): { agentId?: string; sessionKey: string } {
+    const core = getRuntime();
+    const safeConfig = _globalConfig || {};
+    const accountConfig = resolveAccountConfig(_globalConfig, accountId);
+
+    const route = core.channel.routing?.resolveAgentRoute?.({
+        cfg: safeConfig,
+        channel: 'wechat',
+        accountId: accountId,
+        peer: { kind: 'dm', id: senderId }
+    }) || {
+        // Fallback if routing fails (e.g. config not updated)
+        agentId: accountConfig.agentId || (safeConfig as any)?.plugins?.entries?.['webhook-server']?.config?.agentId || 'default',
+        accountId: accountId,
+        sessionKey: accountId === DEFAULT_ACCOUNT_ID ? `wechat:${senderId}` : `wechat:${accountId}:${senderId}`
+    };
+
+    return { agentId: route.agentId, sessionKey: route.sessionKey || `wechat:${senderId}` };
+}
+
+/**
+ * Run the agent dispatch under an abort signal.
+ *
+ * `done` resolves when the dispatch finishes or the signal aborts, whichever
+ * comes first. The SDK gets the signal too but may not stop right away, so
+ * `settled` follows the dispatch itself; whatever it delivers after the abort
+ * is dropped.
+ */
+function dispatchWithSignal(
+    ctx: unknown,
+    cfg: unknown,
+    signal: AbortSignal,
+    dispatcherOptions: {
+        deliver: (payload: { text?: string; mediaUrl?: string; mediaUrls?: string[] }) => Promise<void>;
+        onError: (err: unknown, info: { kind: string }) => void;
+    }
+): { done: Promise<void>; settled: Promise<void> } {
+    const dispatch = getRuntime().channel.reply?.dispatchReplyWithBufferedBlockDispatcher?.({
+        ctx,
+        cfg,
         dispatcherOptions: {
-            deliver: async (deliverPayload: { text?: string }) => {
-                await deliverWeChatReply({
-                    text: deliverPayload.text,
-                    callbackUrl: callbackUrl || (_globalConfig?.channels?.wechat?.config?.callbackUrl),
-                    originalPayload: payload
-                });
-            },
-            onError: (err: unknown, info: { kind: string }) => {
-                console.error(`WeChat dispatch error (${info.kind}):`, err);
+            ...dispatcherOptions,
+            deliver: async (payload: { text?: string; mediaUrl?: string; mediaUrls?: string[] }) => {
+                if (signal.aborted) return;
+                await dispatcherOptions.deliver(payload);
             }
-        }
+        },
+        abortSignal: signal
+    }) ?? Promise.resolve();
+
+    const done = new Promise<void>((resolve, reject) => {
+        if (signal.aborted) return resolve();
+        const onAbort = () => resolve();
+        signal.addEventListener('abort', onAbort, { once: true });
+        dispatch
+            .then(resolve, reject)
+            .finally(() => signal.removeEventListener('abort', onAbort));
     });
+    const settled = dispatch.catch((err) => {
+        // After an abort nobody awaits `done` for this error any more
+        if (signal.aborted) console.warn('Aborted dispatch failed while winding down:', err);
+    });
+    return { done, settled };
+}
+
+// --- Control ---
+
+const RESET_ACK = '🆕 已开始新的会话，之前的对话不会再带入。';
+const CANCEL_ACK = '⏹ 已取消正在执行的任务。';
+const NOTHING_TO_CANCEL = 'ℹ️ 当前没有正在执行的任务。';
+
+/**
+ * Handle /reset or /cancel from the bridge and acknowledge it through the callback
+ */
+async function handleControlPayload(
+    payload: ControlPayload,
+    transport: ReplyTransport = 'http',
+    accountId: string = resolveDefaultAccountId(_globalConfig)
+) {
+    const core = getRuntime();
+    const accountConfig = resolveAccountConfig(_globalConfig, accountId);
+    const senderId = payload.metadata?.openid || 'unknown_user';
+    const senderName = payload.metadata?.nickname || `User ${senderId.slice(0, 4)}`;
+    const callbackUrl = payload.callback_url || accountConfig.callbackUrl;
+    const reply = (text: string) => deliverWeChatReply({ text, callbackUrl, originalPayload: payload, transport, accountId });
+
+    const access = await checkSenderAccess(core, accountConfig, senderId, senderName);
+    if (!access.allowed) {
+        if (access.reply) await reply(access.reply);
+        return;
+    }
+
+    // Messages still waiting in the queue go too
+    const key = senderKey(accountId, senderId);
+    const dropped = taskQueue.clear(key);
+    const cancelled = cancelRuns(key) + dropped;
+    if (payload.control === 'cancel') {
+        console.log(`Cancelled ${cancelled - dropped} run(s) and ${dropped} queued message(s) for ${senderId} (account ${accountId})`);
+        await reply(cancelled > 0 ? CANCEL_ACK : NOTHING_TO_CANCEL);
+        return;
+    }
+
+    // A reset also stops whatever the old session was still working on
+    const { sessionKey } = resolveSenderRoute(accountId, senderId);
+    const nextKey = await rotateSessionKey(sessionKey);
+    console.log(`Reset session of ${senderId} (account ${accountId}): ${nextKey}`);
+    await reply(RESET_ACK);
 }
 
 // --- Delivery ---
 
 async function deliverWeChatReply(params: {
     text?: string;
+    media?: Array<string | Buffer>; // URLs, file paths, data URIs or raw buffers
     callbackUrl?: string;
-    originalPayload: WebhookPayload
+    originalPayload: Pick<WebhookPayload, 'task_id' | 'callback_secret' | 'metadata'>;
+    transport?: ReplyTransport;
+    accountId: string; // Picks the bridge socket in websocket mode
 }) {
-    const { text, callbackUrl } = params;
-    if (!text || !callbackUrl) return;
+    const { text, callbackUrl, originalPayload, transport, accountId } = params;
+
+    const media: OutboundMedia[] = [];
+    const mediaDir = resolveOutboundMediaDir();
+    for (const source of params.media || []) {
+        try {
+            media.push(await encodeOutboundMedia(source, mediaDir));
+        } catch (error) {
+            console.error('Cannot attach media to WeChat reply:', error instanceof Error ? error.message : error);
+        }
+    }
 
-    try {
-        await axios.post(callbackUrl, {
-            success: true,
-            result: text,
-            // Add metadata if needed by Bridge
-            metadata: {
-                // model: ... (Not easily available in this callback without extra context)
-            }
+    if (!text && media.length === 0) return;
+
+    const result = {
+        success: true,
+        result: text,
+        media: media.length > 0 ? media : undefined,
+        // Add metadata if needed by Bridge
+        metadata: {
+            // model: ... (Not easily available in this callback without extra context)
+        }
+    };
+
+    if (transport === 'ws') {
+        const socket = bridgeSockets.get(accountId);
+        if (!socket) {
+            console.error(`Cannot deliver reply for account ${accountId}: it has no bridge socket`);
+            return;
+        }
+        socket.send({
+            type: 'reply',
+            task_id: originalPayload.task_id,
+            openid: originalPayload.metadata?.openid,
+            payload: result
         });
+        return;
+    }
+
+    if (!callbackUrl) return;
+    const body = JSON.stringify(result);
+
+    // Sign the exact bytes we send so the bridge can verify them
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (originalPayload.callback_secret && originalPayload.task_id) {
+        Object.assign(headers, signCallback(originalPayload.callback_secret, originalPayload.task_id, body));
+    }
+
+    try {
+        await axios.post(callbackUrl, body, { headers });
     } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 422) {
+            // The text went out, but the bridge could not send some media
+            console.error(`Bridge rejected media for ${callbackUrl}:`, error.response.data?.errors);
+            return;
+        }
         console.error(`Failed to deliver reply to ${callbackUrl}:`, error);
     }
 }
@@ -262,6 +799,35 @@ async function deliverWeChatReply(params: {
 
 let _globalConfig: ClawdbotConfig | null = null;
 
+const markdownConfigSchema = z.object({
+    tableMode: z.enum(['code', 'text', 'image']).optional()
+        .describe('How Markdown tables are rendered (image is not possible in WeChat text and falls back to text)'),
+    keepLinks: z.boolean().optional().describe('Keep links as clickable <a href> (otherwise only the link text is shown)'),
+}).optional();
+
+const accountConfigSchema = z.object({
+    callbackUrl: z.string().optional().describe('URL to send replies to (e.g. Bridge URL)'),
+    dmPolicy: z.enum(['open', 'pairing', 'disabled']).optional()
+        .describe('open: anyone can chat; pairing: unknown senders get a pairing code to approve; disabled: nobody'),
+    allowFrom: z.array(z.string()).optional().describe('OpenIDs always allowed in pairing mode ("*" for everyone)'),
+    blockedReply: z.string().optional().describe('Reply sent to blocked senders (empty to stay silent)'),
+    markdown: markdownConfigSchema,
+    debounceMs: z.number().int().min(0).optional()
+        .describe('Messages a user sends within this many ms become one agent turn (0 to disable, default 1500)'),
+    busyPolicy: z.enum(['queue', 'interrupt', 'merge']).optional()
+        .describe('Messages arriving while a turn runs - queue: run each afterwards; interrupt: cancel the running turn; merge: run them together afterwards'),
+});
+
+const accountEntrySchema = accountConfigSchema.extend({
+    name: z.string().optional().describe('Display name of the account'),
+    enabled: z.boolean().optional(),
+    authToken: z.string().optional().describe('Bearer token the bridge of this account uses'),
+    authTokens: z.array(z.string()).optional().describe('Additional accepted tokens (for rotation)'),
+    agentId: z.string().optional().describe('Agent used when no routing binding matches'),
+});
+
+const PAIRING_APPROVED_MESSAGE = '✅ 已通过配对，现在可以开始对话了。';
+
 const wechatPlugin: ChannelPlugin<any> = {
     id: 'wechat',
     meta: {
@@ -272,35 +838,80 @@ const wechatPlugin: ChannelPlugin<any> = {
         docsPath: '',
     },
     configSchema: buildChannelConfigSchema(
-        z.object({
-            callbackUrl: z.string().optional().describe('URL to send replies to (e.g. Bridge URL)'),
-        }).extend({
-            accounts: z.object({}).catchall(z.object({
-                callbackUrl: z.string().optional(),
-            })).optional(),
+        accountConfigSchema.extend({
+            accounts: z.object({}).catchall(accountEntrySchema).optional(),
             defaultAccount: z.string().optional()
         })
     ),
     capabilities: {
         chatTypes: ['direct'], // Webhook acts like DM usually
-        media: false, // Set to true if supported
+        media: true, // Inbound images, voice and video arrive as attachments
         blockStreaming: true, // We prefer full blocks for webhook callbacks mostly
     },
     // Implement other required methods (minimal implementation)
     // ...
     config: {
-        // Minimal config helpers
-        listAccountIds: () => [DEFAULT_ACCOUNT_ID],
-        resolveAccount: (cfg: any) => ({
-            accountId: DEFAULT_ACCOUNT_ID,
-            name: 'Default',
-            enabled: true,
-            config: cfg?.plugins?.entries?.['webhook-server']?.config || {} // Fallback to old config location or new one?
-            // Ideally we move config to `channels.wechat`
+        listAccountIds: (cfg: ClawdbotConfig) => listAccountIds(cfg),
+        resolveAccount: (cfg: ClawdbotConfig, accountId?: string | null) => {
+            const resolvedId = accountId ? normalizeAccountId(accountId) : resolveDefaultAccountId(cfg);
+            const config = resolveAccountConfig(cfg, resolvedId);
+            return {
+                accountId: resolvedId,
+                name: resolveAccountName(cfg, resolvedId),
+                enabled: config.enabled !== false,
+                configured: isAccountConfigured(cfg, resolvedId),
+                config
+            };
+        },
+        defaultAccountId: (cfg: ClawdbotConfig) => resolveDefaultAccountId(cfg),
+        isConfigured: (account: { configured: boolean }) => account.configured,
+        describeAccount: (account: { accountId: string; name: string; enabled: boolean; configured: boolean; config: WeChatConfig }) => ({
+            accountId: account.accountId,
+            name: account.name,
+            enabled: account.enabled,
+            configured: account.configured,
+            dmPolicy: account.config.dmPolicy || DEFAULT_DM_POLICY
         }),
-        defaultAccountId: () => DEFAULT_ACCOUNT_ID,
-        isConfigured: () => true, // Always considered configured for now
-        describeAccount: () => ({ accountId: DEFAULT_ACCOUNT_ID, name: 'Default', enabled: true, configured: true }),
+    },
+    pairing: {
+        idLabel: 'wechatOpenId',
+        normalizeAllowEntry,
+        notifyApproval: async ({ id, accountId }: { id: string; accountId?: string }) => {
+            // Approvals are channel-wide, so without an account every account the user wrote to is told
+            const accountIds = accountId ? [normalizeAccountId(accountId)] : listAccountIds(_globalConfig);
+            const targets = accountIds
+                .map(candidate => replyTargets.get(senderKey(candidate, id)))
+                .filter((target): target is ReplyTarget => Boolean(target));
+            if (targets.length === 0) {
+                console.warn(`Cannot notify ${id} of pairing approval: no recent message from this user`);
+                return;
+            }
+            for (const target of targets) {
+                await deliverWeChatReply({
+                    text: PAIRING_APPROVED_MESSAGE,
+                    callbackUrl: target.callbackUrl,
+                    originalPayload: target.payload,
+                    transport: target.transport,
+                    accountId: target.accountId
+                });
+            }
+        }
+    },
+    security: {
+        resolveDmPolicy: ({ cfg, accountId }: { cfg: ClawdbotConfig; accountId?: string }) => {
+            const resolvedId = accountId ? normalizeAccountId(accountId) : resolveDefaultAccountId(cfg);
+            const accountConfig = resolveAccountConfig(cfg, resolvedId);
+            const useAccountPath = Boolean(cfg.channels?.wechat?.accounts?.[resolvedId]);
+            const basePath = useAccountPath ? `channels.wechat.accounts.${resolvedId}.` : 'channels.wechat.';
+            return {
+                policy: accountConfig.dmPolicy || DEFAULT_DM_POLICY,
+                allowFrom: accountConfig.allowFrom || [],
+                policyPath: `${basePath}dmPolicy`,
+                allowFromPath: basePath,
+                approveHint: 'Approve with: clawdbot pairing approve wechat <code>',
+                normalizeEntry: normalizeAllowEntry
+            };
+        }
     },
     // We wrap 'reload' to capture config
     reload: {
@@ -312,13 +923,14 @@ const wechatDock: ChannelDock = {
     id: 'wechat',
     capabilities: {
         chatTypes: ['direct'],
-        media: false,
+        media: true,
         blockStreaming: true
     },
     config: {
         // Helpers for UI
-        resolveAllowFrom: () => [],
-        formatAllowFrom: () => []
+        resolveAllowFrom: ({ cfg, accountId }: { cfg: ClawdbotConfig; accountId?: string }) =>
+            (resolveAccountConfig(cfg, accountId ? normalizeAccountId(accountId) : resolveDefaultAccountId(cfg)).allowFrom || []).map(String),
+        formatAllowFrom: ({ allowFrom }: { allowFrom: Array<string | number> }) => formatAllowFrom(allowFrom)
     }
 };
 
@@ -333,7 +945,7 @@ export default {
         setRuntime(api.runtime);
         _globalConfig = api.config;
 
-        const webhookConfig = api.config.plugins?.entries?.['webhook-server']?.config || {};
+        const webhookConfig = resolvePluginConfig(api.config);
         if (webhookConfig.useNgrok) {
             const port = webhookConfig.ngrokPort || 18789;
             const authtoken = process.env.NGROK_AUTHTOKEN || webhookConfig.ngrokAuthToken;
@@ -347,6 +959,7 @@ export default {
                         authtoken,
                         region
                     });
+                    _ngrokUrl = url;
                     api.logger.info(`Ngrok tunnel established: ${url}`);
                 } catch (err: unknown) {
                     api.logger.error(`Failed to start ngrok: ${err instanceof Error ? err.message : String(err)}`);
@@ -354,6 +967,11 @@ export default {
             })();
         }
 
+        // Outbound-only mode: dial the bridge instead of exposing a webhook
+        if (webhookConfig.connectionMode === 'websocket') {
+            startBridgeSockets(api, webhookConfig);
+        }
+
         // Register as a channel
         api.registerChannel({
             plugin: wechatPlugin,
@@ -0,0 +1,174 @@
+import type { MarkdownTableMode } from 'clawdbot/plugin-sdk';
+
+/**
+ * Render agent Markdown as plain text that reads well in WeChat.
+ * WeChat customer-service text shows Markdown syntax verbatim, but it does
+ * render `<a href>` links, so those are the only markup we emit; `&`, `<`
+ * and `>` in the text itself are escaped so the agent can't emit any other.
+ */
+
+export interface MarkdownRenderOptions {
+    tableMode: MarkdownTableMode; // 'image' is not possible in text, rendered as 'text'
+    keepLinks: boolean;           // Emit <a href> links instead of dropping the URL
+}
+
+export const DEFAULT_MARKDOWN_OPTIONS: MarkdownRenderOptions = {
+    tableMode: 'text',
+    keepLinks: true,
+};
+
+const FENCE_REGEX = /^\s*(`{3,}|~{3,})/;
+const TABLE_SEPARATOR_REGEX = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const HR_REGEX = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const PLACEHOLDER_REGEX = /\u0000(\d+)\u0000/g;
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Link markup; text and url are already escaped (see renderInline)
+ */
+function renderLink(text: string, url: string, options: MarkdownRenderOptions): string {
+    if (!options.keepLinks) return text || url;
+    return `<a href="${url.replace(/"/g, '&quot;')}">${text || url}</a>`;
+}
+
+/**
+ * Render inline syntax: code spans, images, links and emphasis
+ */
+function renderInline(line: string, options: MarkdownRenderOptions): string {
+    // Code spans and links are swapped for placeholders so emphasis rules can't touch them
+    const protectedParts: string[] = [];
+    const protect = (text: string) => `\u0000${protectedParts.push(text) - 1}\u0000`;
+
+    let out = escapeHtml(line)
+        .replace(/(`+)(.+?)\1/g, (_, __, code: string) => protect(code.trim()))
+        .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, alt: string, url: string) =>
+            protect(renderLink(`[图片${alt ? `: ${alt}` : ''}]`, url, options)))
+        .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, text: string, url: string) =>
+            protect(renderLink(text, url, options)))
+        .replace(/&lt;(https?:\/\/(?:(?!&gt;)\S)+)&gt;/g, (_, url: string) => protect(renderLink(url, url, options)))
+        .replace(/https?:\/\/(?:(?!&lt;|&gt;)[^\s\u0000])+/g, (url) => protect(url));
+
+    out = out
+        .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+        .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, '$1')
+        .replace(/(^|[^\w*])\*(?=\S)([^*]+?)(?<=\S)\*(?!\w)/g, '$1$2')
+        .replace(/(^|[^\w])_(?=\S)([^_]+?)(?<=\S)_(?!\w)/g, '$1$2');
+
+    // A link text may itself contain placeholders, always of parts protected before it
+    const restore = (text: string): string =>
+        text.replace(PLACEHOLDER_REGEX, (_, i: string) => restore(protectedParts[Number(i)] ?? ''));
+    return restore(out);
+}
+
+function splitTableRow(line: string): string[] {
+    return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+/**
+ * Render a Markdown table.
+ * code: pipe-separated rows, kept close to the original layout
+ * text: one block per row, "header: value" per cell
+ */
+function renderTable(rows: string[][], options: MarkdownRenderOptions): string[] {
+    const [header, ...body] = rows.map(row => row.map(cell => renderInline(cell, options)));
+
+    if (options.tableMode === 'code') {
+        return [header, ...body].map(row => row.join(' | '));
+    }
+
+    const lines: string[] = [];
+    for (const row of body) {
+        const cells = row.map((cell, i) => (header[i] ? `${header[i]}: ${cell}` : cell));
+        lines.push(`• ${cells[0] ?? ''}`);
+        for (const cell of cells.slice(1)) {
+            lines.push(`  ${cell}`);
+        }
+    }
+    return lines;
+}
+
+/**
+ * Render Markdown into WeChat-friendly plain text
+ */
+export function renderMarkdownForWeChat(
+    markdown: string,
+    options: MarkdownRenderOptions = DEFAULT_MARKDOWN_OPTIONS
+): string {
+    // NUL marks placeholders in renderInline, so it can't appear in the input
+    const lines = markdown.replace(/\u0000/g, '').replace(/\r\n?/g, '\n').split('\n');
+    const out: string[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        // Fenced code: drop the fences, keep the code verbatim
+        const fence = line.match(FENCE_REGEX);
+        if (fence) {
+            const marker = fence[1];
+            i++;
+            while (i < lines.length && !lines[i].trim().startsWith(marker)) {
+                out.push(escapeHtml(lines[i]));
+                i++;
+            }
+            continue;
+        }
+
+        // Tables: a header row followed by a separator row
+        if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR_REGEX.test(lines[i + 1])) {
+            const rows = [splitTableRow(line)];
+            i += 2;
+            while (i < lines.length && lines[i].includes('|') && lines[i].trim() !== '') {
+                rows.push(splitTableRow(lines[i]));
+                i++;
+            }
+            i--;
+            out.push(...renderTable(rows, options));
+            continue;
+        }
+
+        if (HR_REGEX.test(line)) {
+            out.push('──────────');
+            continue;
+        }
+
+        const heading = line.match(/^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/);
+        if (heading) {
+            out.push(`【${renderInline(heading[1], options)}】`);
+            continue;
+        }
+
+        const quote = line.match(/^\s*>\s?(.*)$/);
+        if (quote) {
+            out.push(`▎${renderInline(quote[1], options)}`);
+            continue;
+        }
+
+        const task = line.match(/^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/);
+        if (task) {
+            const indent = ' '.repeat(Math.floor(task[1].length / 2) * 2);
+            out.push(`${indent}${task[2] === ' ' ? '☐' : '☑'} ${renderInline(task[3], options)}`);
+            continue;
+        }
+
+        const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+        if (bullet) {
+            const indent = ' '.repeat(Math.floor(bullet[1].length / 2) * 2);
+            out.push(`${indent}• ${renderInline(bullet[2], options)}`);
+            continue;
+        }
+
+        const ordered = line.match(/^(\s*)(\d+)[.)]\s+(.*)$/);
+        if (ordered) {
+            const indent = ' '.repeat(Math.floor(ordered[1].length / 2) * 2);
+            out.push(`${indent}${ordered[2]}. ${renderInline(ordered[3], options)}`);
+            continue;
+        }
+
+        out.push(renderInline(line, options));
+    }
+
+    return out.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
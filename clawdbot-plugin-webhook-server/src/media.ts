@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+
+/**
+ * Media attached by the bridge to an inbound message
+ */
+export interface InboundAttachment {
+    type: 'image' | 'voice' | 'video';
+    url: string;
+    mime_type: string;
+    size: number;
+    duration?: number;
+}
+
+/**
+ * An attachment saved locally so the agent can read it
+ */
+export interface LocalMedia {
+    path: string;
+    url: string;
+    mimeType: string;
+}
+
+const MEDIA_DIR = path.join(os.tmpdir(), 'clawdbot-wechat-media');
+const MEDIA_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': '.jpg',
+    'image/png': '.png',
+    'image/gif': '.gif',
+    'audio/amr': '.amr',
+    'audio/mpeg': '.mp3',
+    'audio/speex': '.speex',
+    'video/mp4': '.mp4',
+};
+
+/**
+ * Remove downloaded media older than a day
+ */
+async function pruneOldMedia(): Promise<void> {
+    const now = Date.now();
+    const entries = await fs.readdir(MEDIA_DIR).catch(() => [] as string[]);
+    for (const name of entries) {
+        const file = path.join(MEDIA_DIR, name);
+        const stat = await fs.stat(file).catch(() => null);
+        if (stat && now - stat.mtimeMs > MEDIA_MAX_AGE_MS) {
+            await fs.unlink(file).catch(() => undefined);
+        }
+    }
+}
+
+/**
+ * Download the bridge's attachments to a local temp directory.
+ * Attachments that fail to download are skipped.
+ */
+export async function downloadAttachments(attachments: InboundAttachment[]): Promise<LocalMedia[]> {
+    if (attachments.length === 0) return [];
+
+    await fs.mkdir(MEDIA_DIR, { recursive: true });
+    await pruneOldMedia();
+
+    const saved: LocalMedia[] = [];
+    for (const attachment of attachments) {
+        try {
+            const response = await axios.get<ArrayBuffer>(attachment.url, {
+                responseType: 'arraybuffer',
+                timeout: 30000,
+            });
+            const ext = EXTENSIONS[attachment.mime_type] || '';
+            const file = path.join(MEDIA_DIR, `${attachment.type}-${crypto.randomUUID()}${ext}`);
+            await fs.writeFile(file, Buffer.from(response.data));
+            saved.push({ path: file, url: attachment.url, mimeType: attachment.mime_type });
+        } catch (error) {
+            console.error(`Failed to download attachment ${attachment.url}:`, error);
+        }
+    }
+    return saved;
+}
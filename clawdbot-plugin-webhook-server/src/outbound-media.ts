@@ -0,0 +1,103 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * Media sent back to the bridge with a reply.
+ * Remote URLs are passed through for the bridge to fetch;
+ * local files, data URIs and buffers are inlined as base64.
+ */
+export interface OutboundMedia {
+    mime_type?: string;
+    filename?: string;
+    data?: string;
+    url?: string;
+}
+
+const MAX_INLINE_SIZE = 10 * 1024 * 1024; // Largest file WeChat accepts (images and video)
+
+/**
+ * Where local files must be for the agent to send them (`outboundMediaDir`).
+ * Agent output can be steered by the chat user, so other paths are never read.
+ */
+export const DEFAULT_OUTBOUND_MEDIA_DIR = path.join(
+    process.env.CLAWDBOT_STATE_DIR || path.join(os.homedir(), '.clawdbot'),
+    'wechat-outbound'
+);
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.bmp': 'image/bmp',
+    '.amr': 'audio/amr',
+    '.mp3': 'audio/mpeg',
+    '.mp4': 'video/mp4',
+};
+
+/**
+ * Guess the MIME type of a buffer from its leading bytes
+ */
+function sniffMimeType(buf: Buffer): string | undefined {
+    if (buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+    if (buf[0] === 0xff && buf[1] === 0xd8) return 'image/jpeg';
+    if (buf.subarray(0, 4).toString('latin1') === 'GIF8') return 'image/gif';
+    if (buf.subarray(0, 2).toString('latin1') === 'BM') return 'image/bmp';
+    if (buf.subarray(0, 6).toString('latin1') === '#!AMR\n') return 'audio/amr';
+    if (buf.subarray(0, 3).toString('latin1') === 'ID3' || (buf[0] === 0xff && (buf[1] & 0xe0) === 0xe0)) return 'audio/mpeg';
+    if (buf.subarray(4, 8).toString('latin1') === 'ftyp') return 'video/mp4';
+    return undefined;
+}
+
+function inline(data: Buffer, mimeType: string | undefined, filename?: string): OutboundMedia {
+    if (data.length > MAX_INLINE_SIZE) {
+        throw new Error(`Media${filename ? ` ${filename}` : ''} is ${(data.length / 1024 / 1024).toFixed(1)}MB, WeChat accepts at most 10MB`);
+    }
+    return { mime_type: mimeType || sniffMimeType(data), filename, data: data.toString('base64') };
+}
+
+/**
+ * Resolve a local file to its real path, refusing anything outside the media directory
+ * (including symlinks that point out of it)
+ */
+async function resolveMediaFile(filePath: string, mediaDir: string): Promise<string> {
+    const root = await fs.realpath(mediaDir).catch(() => path.resolve(mediaDir));
+    const realPath = await fs.realpath(path.resolve(root, filePath));
+    const relative = path.relative(root, realPath);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+        throw new Error(`${filePath} is outside the media directory ${mediaDir}`);
+    }
+    return realPath;
+}
+
+/**
+ * Turn a media reference from the dispatcher (URL, file path, data URI or buffer)
+ * into something the bridge can upload to WeChat.
+ * Local files are only read from `mediaDir`.
+ */
+export async function encodeOutboundMedia(
+    source: string | Buffer,
+    mediaDir: string = DEFAULT_OUTBOUND_MEDIA_DIR
+): Promise<OutboundMedia> {
+    if (Buffer.isBuffer(source)) {
+        return inline(source, undefined);
+    }
+
+    if (/^https?:\/\//i.test(source)) {
+        return { url: source };
+    }
+
+    const dataUri = source.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+    if (dataUri) {
+        const [, mimeType, isBase64, payload] = dataUri;
+        const data = isBase64 ? Buffer.from(payload, 'base64') : Buffer.from(decodeURIComponent(payload));
+        return inline(data, mimeType);
+    }
+
+    const filePath = await resolveMediaFile(source.startsWith('file://') ? fileURLToPath(source) : source, mediaDir);
+    const data = await fs.readFile(filePath);
+    const ext = path.extname(filePath).toLowerCase();
+    return inline(data, EXTENSION_MIME_TYPES[ext] || sniffMimeType(data), path.basename(filePath));
+}
@@ -0,0 +1,87 @@
+import type { PluginRuntime } from 'clawdbot/plugin-sdk';
+import type { WeChatConfig } from './accounts.js';
+
+/**
+ * Who may talk to the agent over WeChat.
+ * open:     everyone
+ * pairing:  senders in `allowFrom` or approved through a pairing code
+ * disabled: nobody
+ */
+
+export type DmPolicy = NonNullable<WeChatConfig['dmPolicy']>;
+
+export const DEFAULT_DM_POLICY: DmPolicy = 'open';
+export const DEFAULT_BLOCKED_REPLY = '抱歉，你暂时无法使用这个助手。';
+
+export type SenderAccess =
+    | { allowed: true }
+    | { allowed: false; reply?: string }; // reply: text to send back, if any
+
+/**
+ * Strip the optional channel prefix from an allowFrom entry ("wechat:<openid>" -> "<openid>")
+ */
+export function normalizeAllowEntry(entry: string): string {
+    return String(entry).trim().replace(/^(wechat|wx):/i, '');
+}
+
+/**
+ * Normalize allowFrom entries for display and comparison
+ */
+export function formatAllowFrom(allowFrom: Array<string | number>): string[] {
+    return allowFrom.map(entry => normalizeAllowEntry(String(entry))).filter(Boolean);
+}
+
+/**
+ * OpenIDs are case-sensitive, so entries are compared verbatim after the prefix is removed
+ */
+export function isSenderAllowed(senderId: string, allowFrom: Array<string | number>): boolean {
+    const entries = formatAllowFrom(allowFrom);
+    return entries.includes('*') || entries.includes(senderId);
+}
+
+/**
+ * Decide whether a sender may reach the agent, issuing a pairing code if needed
+ */
+export async function checkSenderAccess(
+    core: PluginRuntime,
+    config: WeChatConfig,
+    senderId: string,
+    senderName: string
+): Promise<SenderAccess> {
+    const dmPolicy = config.dmPolicy || DEFAULT_DM_POLICY;
+    const blockedReply = config.blockedReply ?? DEFAULT_BLOCKED_REPLY;
+
+    if (dmPolicy === 'open') {
+        return { allowed: true };
+    }
+
+    if (dmPolicy === 'disabled') {
+        console.log(`Blocked WeChat DM from ${senderId} (dmPolicy=disabled)`);
+        return { allowed: false, reply: blockedReply || undefined };
+    }
+
+    const pairing = core.channel.pairing;
+    const storeAllowFrom = await pairing?.readAllowFromStore?.('wechat').catch(() => []) || [];
+    if (isSenderAllowed(senderId, [...(config.allowFrom || []), ...storeAllowFrom])) {
+        return { allowed: true };
+    }
+
+    if (!pairing?.upsertPairingRequest) {
+        console.warn(`Blocked WeChat DM from ${senderId}: pairing is not supported by this Clawdbot version`);
+        return { allowed: false, reply: blockedReply || undefined };
+    }
+
+    const { code, created } = await pairing.upsertPairingRequest({
+        channel: 'wechat',
+        id: senderId,
+        meta: { name: senderName },
+    });
+    if (created) {
+        console.log(`WeChat pairing request from ${senderId} (${senderName}), code ${code}`);
+    }
+
+    const idLine = `你的微信 OpenID：${senderId}`;
+    const reply = pairing.buildPairingReply?.({ channel: 'wechat', idLine, code })
+        || `${idLine}\n配对码：${code}\n请联系管理员批准：clawdbot pairing approve wechat ${code}`;
+    return { allowed: false, reply };
+}
@@ -0,0 +1,92 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Control over a sender's agent session, driven by the bridge's /reset and /cancel.
+ *
+ * cancel: every run for the sender gets an AbortSignal; aborting it stops the
+ *         dispatch and drops whatever it still tries to deliver.
+ * reset:  the session key gets a new suffix, so the next message starts a
+ *         fresh session. Suffixes are saved to disk so a reset survives restarts.
+ */
+
+const STATE_FILE = path.join(
+    process.env.CLAWDBOT_STATE_DIR || path.join(os.homedir(), '.clawdbot'),
+    'wechat-sessions.json'
+);
+
+// Runs in progress per sender (see senderKey)
+const runs = new Map<string, Set<AbortController>>();
+
+// Base session key -> suffix added by the latest reset
+let sessionSuffixes: Record<string, string> | null = null;
+
+/**
+ * Identifies a sender across accounts
+ */
+export function senderKey(accountId: string, senderId: string): string {
+    return `${accountId}:${senderId}`;
+}
+
+/**
+ * Register a run for a sender; call `end` when it is over
+ */
+export function beginRun(key: string): { signal: AbortSignal; abort: (reason: string) => void; end: () => void } {
+    const controller = new AbortController();
+    const active = runs.get(key) || new Set<AbortController>();
+    active.add(controller);
+    runs.set(key, active);
+
+    return {
+        signal: controller.signal,
+        abort: (reason) => controller.abort(new Error(reason)),
+        end: () => {
+            active.delete(controller);
+            if (active.size === 0 && runs.get(key) === active) runs.delete(key);
+        }
+    };
+}
+
+/**
+ * Abort every run of a sender. Returns how many were running.
+ */
+export function cancelRuns(key: string, reason = 'Cancelled by the user'): number {
+    const active = runs.get(key);
+    if (!active) return 0;
+    runs.delete(key);
+    for (const controller of active) {
+        controller.abort(new Error(reason));
+    }
+    return active.size;
+}
+
+function loadSuffixes(): Record<string, string> {
+    if (!sessionSuffixes) {
+        try {
+            sessionSuffixes = JSON.parse(fs.readFileSync(STATE_FILE, 'utf8'));
+        } catch {
+            sessionSuffixes = {};
+        }
+    }
+    return sessionSuffixes!;
+}
+
+/**
+ * The session key to use for a base key, taking resets into account
+ */
+export function resolveSessionKey(baseKey: string): string {
+    const suffix = loadSuffixes()[baseKey];
+    return suffix ? `${baseKey}:${suffix}` : baseKey;
+}
+
+/**
+ * Start a new session for a base key. Returns the new session key.
+ */
+export async function rotateSessionKey(baseKey: string): Promise<string> {
+    const suffixes = loadSuffixes();
+    suffixes[baseKey] = `s${Date.now().toString(36)}`;
+    await fs.promises.mkdir(path.dirname(STATE_FILE), { recursive: true });
+    await fs.promises.writeFile(STATE_FILE, JSON.stringify(suffixes, null, 2));
+    return resolveSessionKey(baseKey);
+}
@@ -0,0 +1,114 @@
+/**
+ * One agent turn at a time per sender.
+ *
+ * Messages are held for the debounce window; a burst sent within it becomes a
+ * single turn. What happens to messages that arrive while a turn is running
+ * depends on the busy policy:
+ *
+ * queue:     each burst becomes its own turn, run in order
+ * interrupt: the running turn is cancelled and the new messages run as soon as it has ended
+ * merge:     everything that arrived meanwhile runs as one turn afterwards
+ */
+
+export type BusyPolicy = 'queue' | 'interrupt' | 'merge';
+
+export interface QueueOptions {
+    debounceMs: number;
+    busyPolicy: BusyPolicy;
+}
+
+export const DEFAULT_QUEUE_OPTIONS: QueueOptions = {
+    debounceMs: 1500,
+    busyPolicy: 'queue',
+};
+
+/**
+ * Every message runs as a turn of its own, in order. For senders whose
+ * messages each need their own reply (the bridge's sync reply mode).
+ */
+export const UNMERGED_QUEUE_OPTIONS: QueueOptions = {
+    debounceMs: 0,
+    busyPolicy: 'queue',
+};
+
+export interface SessionQueue<T> {
+    /** Add a message for a sender */
+    push(key: string, item: T, options: QueueOptions): void;
+    /** Drop a sender's messages that have not started yet. Returns how many were dropped. */
+    clear(key: string): number;
+}
+
+interface SenderState<T> {
+    pending: T[];     // Inside the debounce window
+    batches: T[][];   // Bursts waiting for the running turn to finish
+    timer?: NodeJS.Timeout;
+    running: boolean;
+    policy: BusyPolicy;
+}
+
+export function createSessionQueue<T>(handlers: {
+    merge: (items: T[]) => T;
+    run: (key: string, item: T) => Promise<void>;
+    interrupt: (key: string) => void;
+}): SessionQueue<T> {
+    const senders = new Map<string, SenderState<T>>();
+
+    function drain(key: string, state: SenderState<T>) {
+        if (state.running) return;
+        if (state.batches.length === 0) {
+            if (state.pending.length === 0) senders.delete(key);
+            return;
+        }
+
+        const items = state.policy === 'queue' ? state.batches.shift()! : state.batches.splice(0).flat();
+        state.running = true;
+        handlers.run(key, handlers.merge(items))
+            .catch(err => console.error('Queued turn failed:', err))
+            .finally(() => {
+                state.running = false;
+                drain(key, state);
+            });
+    }
+
+    function flush(key: string, state: SenderState<T>) {
+        state.timer = undefined;
+        if (state.pending.length > 0) state.batches.push(state.pending.splice(0));
+        drain(key, state);
+    }
+
+    return {
+        push(key, item, options) {
+            let state = senders.get(key);
+            if (!state) {
+                state = { pending: [], batches: [], running: false, policy: options.busyPolicy };
+                senders.set(key, state);
+            }
+            state.policy = options.busyPolicy;
+            state.pending.push(item);
+
+            if (state.running && state.policy === 'interrupt') {
+                handlers.interrupt(key);
+            }
+
+            if (state.timer) clearTimeout(state.timer);
+            const current = state;
+            if (options.debounceMs > 0) {
+                state.timer = setTimeout(() => flush(key, current), options.debounceMs);
+            } else {
+                flush(key, current);
+            }
+        },
+
+        clear(key) {
+            const state = senders.get(key);
+            if (!state) return 0;
+            if (state.timer) clearTimeout(state.timer);
+            state.timer = undefined;
+            const dropped = state.pending.length + state.batches.reduce((sum, batch) => sum + batch.length, 0);
+            state.pending = [];
+            state.batches = [];
+            if (!state.running) senders.delete(key);
+            return dropped;
+        },
+    };
+}
@@ -0,0 +1,13 @@
+import fs from 'fs';
+import path from 'path';
+
+function readVersion(): string {
+    try {
+        const pkg = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8'));
+        return typeof pkg.version === 'string' ? pkg.version : 'unknown';
+    } catch {
+        return 'unknown';
+    }
+}
+
+export const PLUGIN_VERSION = readVersion();
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { renderMarkdownForWeChat, DEFAULT_MARKDOWN_OPTIONS } from '../src/markdown.js';
+
+describe('renderMarkdownForWeChat', () => {
+    it('strips emphasis and turns headings, lists and quotes into plain text', () => {
+        const markdown = '# Title\n\n**bold** and *italic* and ~~gone~~\n- one\n  - two\n1. first\n> quoted';
+        expect(renderMarkdownForWeChat(markdown)).toBe(
+            '【Title】\n\nbold and italic and gone\n• one\n  • two\n1. first\n▎quoted'
+        );
+    });
+
+    it('renders links as <a href> or as their text', () => {
+        const markdown = 'see [docs](https://example.com/a?x=1&y=2) now';
+        expect(renderMarkdownForWeChat(markdown)).toBe('see <a href="https://example.com/a?x=1&amp;y=2">docs</a> now');
+        expect(renderMarkdownForWeChat(markdown, { ...DEFAULT_MARKDOWN_OPTIONS, keepLinks: false })).toBe('see docs now');
+    });
+
+    it('leaves code spans and bare URLs alone', () => {
+        expect(renderMarkdownForWeChat('`a_b_c` https://x.com/a_b_c_')).toBe('a_b_c https://x.com/a_b_c_');
+    });
+
+    it('keeps fenced code verbatim', () => {
+        expect(renderMarkdownForWeChat('```ts\nconst a = **b**;\n```')).toBe('const a = **b**;');
+    });
+
+    it('renders tables as text blocks or pipe rows', () => {
+        const markdown = '| name | age |\n| --- | --- |\n| Ann | 3 |';
+        expect(renderMarkdownForWeChat(markdown)).toBe('• name: Ann\n  age: 3');
+        expect(renderMarkdownForWeChat(markdown, { ...DEFAULT_MARKDOWN_OPTIONS, tableMode: 'code' }))
+            .toBe('name | age\nAnn | 3');
+    });
+
+    it('escapes markup in the text', () => {
+        expect(renderMarkdownForWeChat('<a href="javascript:x">hi</a> & <b>')).toBe(
+            '&lt;a href="javascript:x"&gt;hi&lt;/a&gt; &amp; &lt;b&gt;'
+        );
+        expect(renderMarkdownForWeChat('```\n<script>\n```')).toBe('&lt;script&gt;');
+        expect(renderMarkdownForWeChat('[x](https://e.com/"onclick=")')).toBe('<a href="https://e.com/&quot;onclick=&quot;">x</a>');
+    });
+
+    it('keeps autolinks clickable', () => {
+        expect(renderMarkdownForWeChat('<https://example.com>')).toBe('<a href="https://example.com">https://example.com</a>');
+    });
+
+    it('does not hang on NUL characters in the input', () => {
+        expect(renderMarkdownForWeChat('a\u0000b')).toBe('ab');
+        expect(renderMarkdownForWeChat('\u00000\u0000 `x`')).toBe('0 x');
+    });
+});
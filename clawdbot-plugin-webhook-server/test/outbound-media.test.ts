@@ -0,0 +1,51 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { encodeOutboundMedia } from '../src/outbound-media.js';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+describe('encodeOutboundMedia', () => {
+    let base: string;
+    let mediaDir: string;
+    let outside: string;
+
+    beforeAll(() => {
+        base = fs.mkdtempSync(path.join(os.tmpdir(), 'outbound-media-'));
+        mediaDir = path.join(base, 'media');
+        fs.mkdirSync(mediaDir);
+        fs.writeFileSync(path.join(mediaDir, 'chart.png'), PNG);
+        outside = path.join(base, 'secret.png');
+        fs.writeFileSync(outside, PNG);
+        fs.symlinkSync(outside, path.join(mediaDir, 'link.png'));
+    });
+
+    afterAll(() => {
+        fs.rmSync(base, { recursive: true, force: true });
+    });
+
+    it('inlines files from the media directory', async () => {
+        const expected = { mime_type: 'image/png', filename: 'chart.png', data: PNG.toString('base64') };
+        expect(await encodeOutboundMedia(path.join(mediaDir, 'chart.png'), mediaDir)).toEqual(expected);
+        expect(await encodeOutboundMedia(pathToFileURL(path.join(mediaDir, 'chart.png')).href, mediaDir)).toEqual(expected);
+        expect(await encodeOutboundMedia('chart.png', mediaDir)).toEqual(expected);
+    });
+
+    it('refuses files outside the media directory', async () => {
+        await expect(encodeOutboundMedia(outside, mediaDir)).rejects.toThrow('outside the media directory');
+        await expect(encodeOutboundMedia('../secret.png', mediaDir)).rejects.toThrow('outside the media directory');
+        await expect(encodeOutboundMedia(mediaDir, mediaDir)).rejects.toThrow('outside the media directory');
+    });
+
+    it('refuses symlinks that lead out of the media directory', async () => {
+        await expect(encodeOutboundMedia(path.join(mediaDir, 'link.png'), mediaDir)).rejects.toThrow('outside the media directory');
+    });
+
+    it('passes URLs through and inlines data URIs', async () => {
+        expect(await encodeOutboundMedia('https://example.com/a.png', mediaDir)).toEqual({ url: 'https://example.com/a.png' });
+        expect(await encodeOutboundMedia(`data:image/png;base64,${PNG.toString('base64')}`, mediaDir))
+            .toMatchObject({ mime_type: 'image/png', data: PNG.toString('base64') });
+    });
+});
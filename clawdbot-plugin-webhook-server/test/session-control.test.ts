@@ -0,0 +1,54 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+type SessionControl = typeof import('../src/session-control.js');
+
+describe('session control', () => {
+    let stateDir: string;
+    let control: SessionControl;
+
+    // The state file location is read when the module loads
+    beforeAll(async () => {
+        stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wechat-sessions-'));
+        vi.stubEnv('CLAWDBOT_STATE_DIR', stateDir);
+        control = await import('../src/session-control.js');
+    });
+
+    afterAll(() => {
+        vi.unstubAllEnvs();
+        fs.rmSync(stateDir, { recursive: true, force: true });
+    });
+
+    it('aborts every run of the sender and nothing else', () => {
+        const key = control.senderKey('main', 'user-1');
+        const first = control.beginRun(key);
+        const second = control.beginRun(key);
+        const other = control.beginRun(control.senderKey('other', 'user-1'));
+
+        expect(control.cancelRuns(key)).toBe(2);
+        expect(first.signal.aborted).toBe(true);
+        expect(second.signal.reason).toBeInstanceOf(Error);
+        expect(other.signal.aborted).toBe(false);
+        expect(control.cancelRuns(key)).toBe(0);
+    });
+
+    it('forgets runs once they have ended', () => {
+        const key = control.senderKey('main', 'user-2');
+        control.beginRun(key).end();
+        expect(control.cancelRuns(key)).toBe(0);
+    });
+
+    it('starts a new session key on reset and saves it', async () => {
+        const base = 'agent:main:wechat:user-3';
+        expect(control.resolveSessionKey(base)).toBe(base);
+
+        const rotated = await control.rotateSessionKey(base);
+        expect(rotated).toMatch(/^agent:main:wechat:user-3:s[0-9a-z]+$/);
+        expect(control.resolveSessionKey(base)).toBe(rotated);
+
+        const saved = JSON.parse(fs.readFileSync(path.join(stateDir, 'wechat-sessions.json'), 'utf8'));
+        expect(`${base}:${saved[base]}`).toBe(rotated);
+    });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createSessionQueue, QueueOptions, UNMERGED_QUEUE_OPTIONS } from '../src/session-queue.js';
+
+/** A turn the test finishes by hand */
+interface Turn {
+    key: string;
+    item: string;
+    finish: () => void;
+}
+
+function setup() {
+    const turns: Turn[] = [];
+    const interrupted: string[] = [];
+    const queue = createSessionQueue<string>({
+        merge: (items) => items.join('+'),
+        run: (key, item) => new Promise<void>((resolve) => turns.push({ key, item, finish: resolve })),
+        interrupt: (key) => interrupted.push(key),
+    });
+    return { queue, turns, interrupted };
+}
+
+const options = (busyPolicy: QueueOptions['busyPolicy'], debounceMs = 100): QueueOptions => ({ debounceMs, busyPolicy });
+
+describe('createSessionQueue', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('coalesces a burst within the debounce window into one turn', () => {
+        const { queue, turns } = setup();
+        queue.push('a', 'one', options('queue'));
+        vi.advanceTimersByTime(50);
+        queue.push('a', 'two', options('queue'));
+        vi.advanceTimersByTime(99);
+        expect(turns).toHaveLength(0);
+
+        vi.advanceTimersByTime(1);
+        expect(turns.map((turn) => turn.item)).toEqual(['one+two']);
+    });
+
+    it('runs senders independently', () => {
+        const { queue, turns } = setup();
+        queue.push('a', 'one', options('queue', 0));
+        queue.push('b', 'two', options('queue', 0));
+        expect(turns.map((turn) => `${turn.key}:${turn.item}`)).toEqual(['a:one', 'b:two']);
+    });
+
+    it('queue: runs each burst as its own turn, in order', async () => {
+        const { queue, turns } = setup();
+        queue.push('a', 'one', options('queue', 0));
+        queue.push('a', 'two', options('queue', 0));
+        queue.push('a', 'three', options('queue', 0));
+        expect(turns.map((turn) => turn.item)).toEqual(['one']);
+
+        turns[0].finish();
+        await vi.runAllTimersAsync();
+        expect(turns.map((turn) => turn.item)).toEqual(['one', 'two']);
+
+        turns[1].finish();
+        await vi.runAllTimersAsync();
+        expect(turns.map((turn) => turn.item)).toEqual(['one', 'two', 'three']);
+    });
+
+    it('merge: runs everything that arrived meanwhile as one turn', async () => {
+        const { queue, turns } = setup();
+        queue.push('a', 'one', options('merge', 0));
+        queue.push('a', 'two', options('merge', 0));
+        queue.push('a', 'three', options('merge', 0));
+
+        turns[0].finish();
+        await vi.runAllTimersAsync();
+        expect(turns.map((turn) => turn.item)).toEqual(['one', 'two+three']);
+    });
+
+    it('interrupt: cancels the running turn, but starts the next only once it has ended', async () => {
+        const { queue, turns, interrupted } = setup();
+        queue.push('a', 'one', options('interrupt', 0));
+        queue.push('a', 'two', options('interrupt', 0));
+        expect(interrupted).toEqual(['a']);
+
+        await vi.runAllTimersAsync();
+        expect(turns.map((turn) => turn.item)).toEqual(['one']);
+
+        turns[0].finish();
+        await vi.runAllTimersAsync();
+        expect(turns.map((turn) => turn.item)).toEqual(['one', 'two']);
+    });
+
+    it('unmerged options give every message a turn of its own', async () => {
+        const { queue, turns } = setup();
+        queue.push('a', 'one', UNMERGED_QUEUE_OPTIONS);
+        queue.push('a', 'two', UNMERGED_QUEUE_OPTIONS);
+        queue.push('a', 'three', UNMERGED_QUEUE_OPTIONS);
+
+        for (let i = 0; i < 3; i++) {
+            turns[i].finish();
+            await vi.runAllTimersAsync();
+        }
+        expect(turns.map((turn) => turn.item)).toEqual(['one', 'two', 'three']);
+    });
+
+    it('clear drops messages that have not started', async () => {
+        const { queue, turns } = setup();
+        queue.push('a', 'one', options('queue', 0));
+        queue.push('a', 'two', options('queue', 0));
+        queue.push('a', 'three', options('queue'));
+        expect(queue.clear('a')).toBe(2);
+
+        turns[0].finish();
+        await vi.runAllTimersAsync();
+        expect(turns.map((turn) => turn.item)).toEqual(['one']);
+        expect(queue.clear('a')).toBe(0);
+    });
+});
@@ -1,6 +1,18 @@
 import Fastify, { FastifyInstance } from 'fastify';
+import websocket from '@fastify/websocket';
 import { wechatRoutes } from './routes/wechat.js';
 import { callbackRoutes } from './routes/callback.js';
+import { pluginSocketRoutes } from './routes/plugin-socket.js';
+import { mediaRoutes } from './routes/media.js';
+import { pairingRoutes } from './routes/pairing.js';
+import { adminRoutes } from './routes/admin.js';
+import { getConfig } from './config.js';
+
+declare module 'fastify' {
+    interface FastifyRequest {
+        rawBody?: string; // Unparsed JSON body, needed to verify callback signatures
+    }
+}
 
 export function buildApp(): FastifyInstance {
     const isDevelopment = process.env.NODE_ENV === 'development';
@@ -20,6 +32,8 @@ export function buildApp(): FastifyInstance {
             : {
                 level: process.env.LOG_LEVEL || 'info',
             },
+        // Behind a reverse proxy every request would otherwise share the proxy's IP
+        trustProxy: getConfig().trustProxy,
     });
 
     // Register content type parser for XML
@@ -31,14 +45,34 @@ export function buildApp(): FastifyInstance {
         }
     );
 
+    // Keep the raw JSON body around for signature verification
+    app.removeContentTypeParser('application/json');
+    app.addContentTypeParser(
+        'application/json',
+        { parseAs: 'string' },
+        (req, body, done) => {
+            req.rawBody = body as string;
+            try {
+                done(null, body ? JSON.parse(body as string) : {});
+            } catch (err) {
+                done(err as Error, undefined);
+            }
+        }
+    );
+
     // Health check endpoint
     app.get('/health', async () => {
         return { status: 'ok', timestamp: new Date().toISOString() };
     });
 
     // Register routes
+    app.register(websocket);
     app.register(wechatRoutes);
     app.register(callbackRoutes);
+    app.register(pluginSocketRoutes);
+    app.register(mediaRoutes);
+    app.register(pairingRoutes);
+    app.register(adminRoutes);
 
     // Error handler
     app.setErrorHandler((error, request, reply) => {
@@ -1,3 +1,40 @@
+import fs from 'fs';
+import { parseKeyRing, EncryptionKey } from './utils/secret-box.js';
+import type { StorageBackend } from './storage/store.js';
+
+/**
+ * A WeChat Official Account served by this bridge
+ */
+export interface WeChatAccount {
+    key: string;             // Identifies the account in routes (/wechat/:key) and Redis keys
+    appId: string;
+    appSecret: string;
+    token: string;           // Used for signature validation
+    encodingAESKey?: string; // Optional, for message encryption
+    default?: boolean;       // Served on /wechat and /callback/:openid, keeps the un-namespaced Redis keys
+    heldTemplate?: HeldReplyTemplate; // Template message for held replies (see heldReplies.template)
+    replyMode?: ReplyMode;   // How replies reach the user (default async)
+}
+
+/**
+ * async: a passive "processing" reply, the answer follows over the customer-service API
+ * sync:  the answer is the passive reply itself (for accounts without the customer-service API)
+ */
+export type ReplyMode = 'async' | 'sync';
+
+export interface HeldReplyTemplate {
+    id: string;
+    url?: string;
+    fields: Record<string, string>; // Template field -> value, supports {{count}}, {{preview}}, {{time}}
+}
+
+/**
+ * Proxies whose X-Forwarded-For header is trusted (Fastify's trustProxy):
+ * false (none, the default), true (all), a number of hops, or a
+ * comma-separated list of proxy addresses and CIDR ranges
+ */
+export type TrustProxy = boolean | number | string;
+
 /**
  * Environment configuration for the WeChat Bridge service
  */
@@ -5,24 +42,78 @@ export interface Config {
     // Server
     port: number;
     host: string;
+    trustProxy: TrustProxy; // Which proxies' X-Forwarded-For to believe for the client IP
 
-    // WeChat Official Account
-    wechat: {
-        appId: string;
-        appSecret: string;
-        token: string; // Used for signature validation
-        encodingAESKey?: string; // Optional, for message encryption
+    // WeChat Official Accounts (exactly one is the default)
+    accounts: WeChatAccount[];
+
+    // Storage
+    storage: {
+        backend: StorageBackend; // redis (default), sqlite (single file) or memory (lost on restart)
+        sqlitePath: string;
     };
 
-    // Redis
+    // Redis (storage backend redis)
     redis: {
         url: string;
     };
 
+    // Requests WeChat pushes to /wechat
+    wechat: {
+        maxClockSkew: number; // Seconds a request timestamp may deviate from our clock
+    };
+
     // Bridge
     bridge: {
         baseUrl: string; // Public URL of this bridge (for callback URLs)
     };
+
+    // Bind code registration (POST /pair)
+    pairing: {
+        secret?: string;    // Bearer token plugins must present (unset: registration is disabled)
+        rateLimit: number;  // Registrations per client IP per 10 minutes
+        qrRateLimit: number; // Of those, registrations with a QR code (each costs WeChat API quota)
+    };
+
+    // Operator routes under /admin
+    admin: {
+        token?: string; // Bearer token the routes require (unset: the routes are disabled)
+    };
+
+    // User bindings to plugin endpoints
+    bindings: {
+        allowPrivateEndpoints: boolean; // Allow loopback, link-local and private addresses (e.g. bridge and plugin on one LAN)
+        encryptionKeys: EncryptionKey[]; // Encrypt binding secrets at rest; the first key encrypts, all decrypt
+    };
+
+    // Inbound media downloaded from WeChat
+    media: {
+        ttl: number; // Seconds downloaded files stay available to the plugin
+        dir: string; // Where downloaded files are kept (must be shared by all bridge instances)
+    };
+
+    // Replies that could not be delivered because the 48h customer-service window closed
+    heldReplies: {
+        mode: 'auto' | 'notify'; // auto: send on next interaction; notify: announce and wait for the user to ask
+        template?: HeldReplyTemplate; // Default account only; other accounts set heldTemplate
+    };
+
+    // While the agent works on a forwarded message
+    typing: {
+        enabled: boolean;       // Show "typing..." in the chat until the first reply
+        progressAfter: number;  // Seconds before a progress message is sent (0: never)
+        progressText: string;
+        maxDuration: number;    // Seconds after which we stop waiting for a reply
+    };
+
+    // Streamed replies from /callback/:openid/stream
+    stream: {
+        mode: 'final' | 'progressive'; // final: send once complete; progressive: send parts as they build up
+        flushBytes: number;            // Progressive: send once this much text is buffered
+        flushInterval: number;         // Progressive: seconds before buffered text is sent anyway
+        timeout: number;               // Seconds without chunks before the stream is flushed as is
+        gapTimeout: number;            // Seconds to wait for a missing chunk
+    };
 }
 
 function requireEnv(key: string): string {
@@ -37,24 +128,164 @@ export function loadConfig(): Config {
     return {
         port: parseInt(process.env.PORT || '3000', 10),
         host: process.env.HOST || '0.0.0.0',
+        trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
 
-        wechat: {
-            appId: requireEnv('WECHAT_APPID'),
-            appSecret: requireEnv('WECHAT_APPSECRET'),
-            token: requireEnv('WECHAT_TOKEN'),
-            encodingAESKey: process.env.WECHAT_ENCODING_AES_KEY,
+        accounts: loadAccounts(),
+
+        storage: {
+            backend: parseStorageBackend(process.env.STORAGE_BACKEND),
+            sqlitePath: process.env.SQLITE_PATH || './data/bridge.db',
         },
 
         redis: {
             url: process.env.REDIS_URL || 'redis://localhost:6379',
         },
 
+        wechat: {
+            maxClockSkew: parseInt(process.env.WECHAT_MAX_CLOCK_SKEW_SECONDS || '300', 10),
+        },
+
         bridge: {
             baseUrl: requireEnv('BRIDGE_BASE_URL'),
         },
+
+        pairing: {
+            secret: process.env.PAIRING_SECRET || undefined,
+            rateLimit: parseInt(process.env.PAIR_RATE_LIMIT || '10', 10),
+            qrRateLimit: parseInt(process.env.PAIR_QR_RATE_LIMIT || '3', 10),
+        },
+
+        admin: {
+            token: process.env.ADMIN_TOKEN || undefined,
+        },
+
+        bindings: {
+            allowPrivateEndpoints: process.env.ALLOW_PRIVATE_ENDPOINTS === 'true',
+            encryptionKeys: parseKeyRing(process.env.BINDING_ENCRYPTION_KEYS),
+        },
+
+        media: {
+            ttl: parseInt(process.env.MEDIA_TTL_SECONDS || '86400', 10),
+            dir: process.env.MEDIA_DIR || './data/media',
+        },
+
+        heldReplies: {
+            mode: process.env.HELD_REPLY_MODE === 'notify' ? 'notify' : 'auto',
+            template: process.env.WECHAT_HELD_TEMPLATE_ID
+                ? {
+                    id: process.env.WECHAT_HELD_TEMPLATE_ID,
+                    url: process.env.WECHAT_HELD_TEMPLATE_URL,
+                    fields: parseJsonEnv('WECHAT_HELD_TEMPLATE_FIELDS', {}),
+                }
+                : undefined,
+        },
+
+        typing: {
+            enabled: process.env.TYPING_INDICATOR !== 'false',
+            progressAfter: parseInt(process.env.PROGRESS_NOTICE_SECONDS || '0', 10),
+            progressText: process.env.PROGRESS_NOTICE_TEXT || '⏳ 还在处理中，请再稍等一会儿...',
+            maxDuration: parseInt(process.env.TYPING_MAX_SECONDS || '300', 10),
+        },
+
+        stream: {
+            mode: process.env.STREAM_MODE === 'progressive' ? 'progressive' : 'final',
+            flushBytes: parseInt(process.env.STREAM_FLUSH_BYTES || '1500', 10),
+            flushInterval: parseInt(process.env.STREAM_FLUSH_INTERVAL_SECONDS || '10', 10),
+            timeout: parseInt(process.env.STREAM_TIMEOUT_SECONDS || '120', 10),
+            gapTimeout: parseInt(process.env.STREAM_GAP_TIMEOUT_SECONDS || '15', 10),
+        },
     };
 }
 
+const ACCOUNT_KEY_REGEX = /^[A-Za-z0-9_-]{1,32}$/;
+
+/**
+ * Load the official accounts from WECHAT_ACCOUNTS_FILE,
+ * or a single default account from the WECHAT_* variables
+ */
+function loadAccounts(): WeChatAccount[] {
+    const file = process.env.WECHAT_ACCOUNTS_FILE;
+    if (!file) {
+        return [{
+            key: 'default',
+            appId: requireEnv('WECHAT_APPID'),
+            appSecret: requireEnv('WECHAT_APPSECRET'),
+            token: requireEnv('WECHAT_TOKEN'),
+            encodingAESKey: process.env.WECHAT_ENCODING_AES_KEY,
+            replyMode: parseReplyMode(process.env.WECHAT_REPLY_MODE, 'WECHAT_REPLY_MODE'),
+            default: true,
+        }];
+    }
+
+    let parsed: { accounts?: WeChatAccount[] };
+    try {
+        parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        throw new Error(`Cannot read accounts file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const accounts = parsed.accounts || [];
+    if (accounts.length === 0) {
+        throw new Error(`No accounts defined in ${file}`);
+    }
+
+    const keys = new Set<string>();
+    for (const account of accounts) {
+        if (!account.key || !ACCOUNT_KEY_REGEX.test(account.key)) {
+            throw new Error(`Invalid account key "${account.key}" in ${file} (letters, digits, _ and -)`);
+        }
+        if (keys.has(account.key)) {
+            throw new Error(`Duplicate account key "${account.key}" in ${file}`);
+        }
+        if (!account.appId || !account.appSecret || !account.token) {
+            throw new Error(`Account "${account.key}" in ${file} needs appId, appSecret and token`);
+        }
+        parseReplyMode(account.replyMode, `replyMode of account "${account.key}" in ${file}`);
+        keys.add(account.key);
+    }
+
+    const defaults = accounts.filter(account => account.default);
+    if (defaults.length > 1) {
+        throw new Error(`More than one default account in ${file}`);
+    }
+    const defaultAccount = defaults[0] || accounts[0];
+    return accounts.map(account => ({ ...account, default: account === defaultAccount }));
+}
+
+function parseJsonEnv<T>(key: string, fallback: T): T {
+    const value = process.env[key];
+    if (!value) return fallback;
+    try {
+        return JSON.parse(value) as T;
+    } catch {
+        throw new Error(`Invalid JSON in environment variable: ${key}`);
+    }
+}
+
+function parseReplyMode(value: string | undefined, source: string): ReplyMode {
+    if (!value) return 'async';
+    if (value !== 'async' && value !== 'sync') {
+        throw new Error(`Invalid ${source} "${value}": expected async or sync`);
+    }
+    return value;
+}
+
+function parseStorageBackend(value: string | undefined): StorageBackend {
+    if (!value) return 'redis';
+    if (value !== 'redis' && value !== 'sqlite' && value !== 'memory') {
+        throw new Error(`Invalid STORAGE_BACKEND "${value}": expected redis, sqlite or memory`);
+    }
+    return value;
+}
+
+function parseTrustProxy(value: string | undefined): TrustProxy {
+    const trimmed = value?.trim();
+    if (!trimmed || trimmed === 'false') return false;
+    if (trimmed === 'true') return true;
+    if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+    return trimmed;
+}
+
 // Singleton config instance
 let configInstance: Config | null = null;
 
@@ -64,3 +295,28 @@ export function getConfig(): Config {
     }
     return configInstance;
 }
+
+/**
+ * Look up an account by key
+ */
+export function getAccount(key: string): WeChatAccount | undefined {
+    return getConfig().accounts.find(account => account.key === key);
+}
+
+/**
+ * The account served on the un-prefixed routes
+ */
+export function getDefaultAccount(): WeChatAccount {
+    return getConfig().accounts.find(account => account.default)!;
+}
+
+/**
+ * Resolve an account key stored with a record (records without one belong to the default account)
+ */
+export function resolveAccount(key?: string): WeChatAccount {
+    const account = key ? getAccount(key) : getDefaultAccount();
+    if (!account) {
+        throw new Error(`Unknown WeChat account: ${key}`);
+    }
+    return account;
+}
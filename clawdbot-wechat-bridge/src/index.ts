@@ -1,22 +1,50 @@
 import { buildApp } from './app.js';
 import { loadConfig } from './config.js';
-import { closeRedis } from './services/redis.js';
+import { closeStore } from './storage/store.js';
+import { resumeOutboundQueues } from './services/outbound-queue.js';
+import { startStreamSweeper } from './services/stream-buffer.js';
+import { startMediaSweeper } from './services/media-store.js';
 
 async function main() {
     // Load configuration
     const config = loadConfig();
 
     console.log('Starting Clawdbot WeChat Bridge...');
-    console.log(`  WeChat AppID: ${config.wechat.appId.slice(0, 6)}...`);
+    for (const account of config.accounts) {
+        const route = account.default ? '/wechat' : `/wechat/${account.key}`;
+        console.log(`  WeChat account ${account.key}: AppID ${account.appId.slice(0, 6)}... on ${route}`);
+    }
     console.log(`  Bridge URL: ${config.bridge.baseUrl}`);
-    console.log(`  Redis URL: ${config.redis.url}`);
+    if (config.storage.backend === 'redis') {
+        console.log(`  Storage: Redis at ${config.redis.url}`);
+    } else if (config.storage.backend === 'sqlite') {
+        console.log(`  Storage: SQLite at ${config.storage.sqlitePath}`);
+    } else {
+        console.warn('  Storage: in memory (everything is lost on restart)');
+    }
+    if (config.bindings.encryptionKeys.length > 0) {
+        console.log(`  Binding secrets encrypted with key ${config.bindings.encryptionKeys[0].id}`);
+    } else {
+        console.warn('  BINDING_ENCRYPTION_KEYS is not set: binding tokens are stored in plaintext');
+    }
+    if (config.trustProxy !== false) {
+        console.log(`  Client IPs taken from X-Forwarded-For (TRUST_PROXY=${config.trustProxy})`);
+    }
+    if (!config.pairing.secret) {
+        console.warn('  PAIRING_SECRET is not set: plugins cannot register bind codes');
+    }
 
     // Build and start the Fastify app
     const app = buildApp();
+    let sweeper: NodeJS.Timeout | undefined;
+    let mediaSweeper: NodeJS.Timeout | undefined;
 
     try {
         await app.listen({ port: config.port, host: config.host });
         console.log(`Server listening on http://${config.host}:${config.port}`);
+        await resumeOutboundQueues();
+        sweeper = startStreamSweeper();
+        mediaSweeper = startMediaSweeper();
     } catch (err) {
         app.log.error(err);
         process.exit(1);
@@ -25,8 +53,10 @@ async function main() {
     // Graceful shutdown
     const shutdown = async () => {
         console.log('\nShutting down...');
+        clearInterval(sweeper);
+        clearInterval(mediaSweeper);
         await app.close();
-        await closeRedis();
+        await closeStore();
         console.log('Goodbye!');
         process.exit(0);
     };
@@ -0,0 +1,82 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { getAccount, getConfig, getDefaultAccount, WeChatAccount } from '../config.js';
+import { listDeadLetters, requeueDeadLetters } from '../services/outbound-queue.js';
+import { safeEqual } from '../utils/signature.js';
+
+interface AdminQuery {
+    account?: string; // Official account key (default account if absent)
+    limit?: string;
+}
+
+interface RequeueBody {
+    account?: string;
+    job_ids?: string[]; // Only these jobs (all dead letters if absent)
+}
+
+/**
+ * Check the admin bearer token. Replies (404 while no ADMIN_TOKEN is set, 401 otherwise) and returns false if it fails.
+ */
+function authorize(request: FastifyRequest, reply: FastifyReply): boolean {
+    const { token } = getConfig().admin;
+    if (!token) {
+        reply.code(404).send({ ok: false, error: 'Not found' });
+        return false;
+    }
+    const provided = request.headers.authorization?.replace(/^Bearer\s+/i, '') || '';
+    if (!safeEqual(token, provided)) {
+        console.warn(`Rejected admin request from ${request.ip}`);
+        reply.code(401).send({ ok: false, error: 'Unauthorized' });
+        return false;
+    }
+    return true;
+}
+
+/**
+ * The account an admin request addresses, or null (after replying 404) if unknown
+ */
+function resolveAdminAccount(key: string | undefined, reply: FastifyReply): WeChatAccount | null {
+    const account = key ? getAccount(key) : getDefaultAccount();
+    if (!account) {
+        reply.code(404).send({ ok: false, error: `Unknown account ${key}` });
+        return null;
+    }
+    return account;
+}
+
+export async function adminRoutes(fastify: FastifyInstance): Promise<void> {
+    /**
+     * GET /admin/dead-letters - Outbound jobs that failed permanently, newest first
+     */
+    fastify.get<{ Querystring: AdminQuery }>(
+        '/admin/dead-letters',
+        async (request, reply) => {
+            if (!authorize(request, reply)) return reply;
+            const account = resolveAdminAccount(request.query.account, reply);
+            if (!account) return reply;
+
+            const limit = parseInt(request.query.limit || '50', 10);
+            const letters = await listDeadLetters(account, Number.isFinite(limit) && limit > 0 ? limit : 50);
+            return reply.send({ ok: true, account: account.key, dead_letters: letters });
+        }
+    );
+
+    /**
+     * POST /admin/dead-letters/requeue - Put dead letters back in their user's queue and deliver them
+     */
+    fastify.post<{ Body: RequeueBody }>(
+        '/admin/dead-letters/requeue',
+        async (request, reply) => {
+            if (!authorize(request, reply)) return reply;
+            const body = request.body || {};
+            const account = resolveAdminAccount(body.account, reply);
+            if (!account) return reply;
+            if (body.job_ids !== undefined && !Array.isArray(body.job_ids)) {
+                return reply.code(400).send({ ok: false, error: 'job_ids must be an array' });
+            }
+
+            const requeued = await requeueDeadLetters(account, body.job_ids);
+            console.log(`Requeued ${requeued} dead letter(s) for account ${account.key} (admin request from ${request.ip})`);
+            return reply.send({ ok: true, requeued });
+        }
+    );
+}
@@ -1,99 +1,85 @@
-import { FastifyInstance, FastifyRequest } from 'fastify';
-import { sendTextMessage } from '../services/wechat-message.js';
-import { getBinding } from '../services/redis.js';
-
-/**
- * Callback payload from Clawdbot
- */
-interface ClawdbotCallbackPayload {
-    success: boolean;
-    result?: string;
-    error?: string;
-    metadata?: {
-        chunks?: number;
-        thinking_time_ms?: number;
-    };
-}
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { getAccount, getDefaultAccount, WeChatAccount } from '../config.js';
+import { verifyCallback } from '../services/callback-auth.js';
+import {
+    handleCallbackResult,
+    handleStreamChunk,
+    ClawdbotCallbackPayload,
+    ClawdbotStreamPayload,
+} from '../services/callback-handler.js';
 
 interface CallbackParams {
+    appKey?: string; // Official account; absent on the default account's routes
     openid: string;
 }
 
+/**
+ * The account a callback route addresses, or null (after replying 404) if unknown
+ */
+function resolveRouteAccount(params: CallbackParams, reply: FastifyReply): WeChatAccount | null {
+    const account = params.appKey ? getAccount(params.appKey) : getDefaultAccount();
+    if (!account) {
+        reply.code(404).send({ ok: false, error: `Unknown account ${params.appKey}` });
+        return null;
+    }
+    return account;
+}
+
 export async function callbackRoutes(fastify: FastifyInstance): Promise<void> {
     /**
      * POST /callback/:openid - Receive Clawdbot processing results
+     * (POST /callback/:appKey/:openid for accounts other than the default)
      * This is called by Clawdbot after completing a task
      */
-    fastify.post<{
-        Params: CallbackParams;
-        Body: ClawdbotCallbackPayload;
-    }>(
-        '/callback/:openid',
-        async (request, reply) => {
-            const { openid } = request.params;
-            const { success, result, error, metadata } = request.body;
+    const handleResult = async (
+        request: FastifyRequest<{ Params: CallbackParams; Body: ClawdbotCallbackPayload }>,
+        reply: FastifyReply
+    ) => {
+        const { openid } = request.params;
+        const account = resolveRouteAccount(request.params, reply);
+        if (!account) return reply;
 
-            console.log(`Received callback for OpenID: ${openid}`, { success, metadata });
-
-            // Verify the user is still bound (optional security check)
-            const binding = await getBinding(openid);
-            if (!binding) {
-                console.warn(`Callback received for unbound user: ${openid}`);
-                // Still try to send the message - user might have just unbound
-            }
-
-            let messageContent: string;
-
-            if (success) {
-                messageContent = result || '✅ 任务已完成（无返回内容）';
-            } else {
-                messageContent = `❌ 处理失败：${error || '未知错误'}`;
-            }
+        const auth = await verifyCallback(request, account, openid);
+        if (!auth.ok) {
+            console.warn(`Rejected callback for OpenID ${openid}: ${auth.reason}`);
+            return reply.code(auth.status).send({ ok: false, error: auth.reason });
+        }
 
-            // Add thinking time info if available
-            if (metadata?.thinking_time_ms) {
-                const seconds = (metadata.thinking_time_ms / 1000).toFixed(1);
-                messageContent += `\n\n⏱️ 思考用时: ${seconds}s`;
-            }
+        const { success, metadata } = request.body;
 
-            // Send via Customer Service API
-            const sent = await sendTextMessage(openid, messageContent);
+        console.log(`Received callback for OpenID: ${openid} (account ${account.key}, task ${auth.taskId})`, { success, metadata });
 
-            if (sent) {
-                console.log(`Successfully sent response to ${openid}`);
-                return reply.send({ ok: true });
-            } else {
-                console.error(`Failed to send response to ${openid}`);
-                return reply.code(500).send({ ok: false, error: 'Failed to send WeChat message' });
-            }
+        const { mediaErrors } = await handleCallbackResult(account, openid, auth.task, request.body);
+        if (mediaErrors.length > 0) {
+            return reply.code(422).send({ ok: false, queued: true, errors: mediaErrors });
         }
-    );
+        return reply.send({ ok: true, queued: true });
+    };
 
     /**
      * POST /callback/:openid/stream - Handle streaming responses (optional)
      * For Clawdbot instances that support streaming callbacks
      */
-    fastify.post<{
-        Params: CallbackParams;
-        Body: { chunk: string; done: boolean; chunk_index?: number };
-    }>(
-        '/callback/:openid/stream',
-        async (request, reply) => {
-            const { openid } = request.params;
-            const { chunk, done, chunk_index } = request.body;
+    const handleStream = async (
+        request: FastifyRequest<{ Params: CallbackParams; Body: ClawdbotStreamPayload }>,
+        reply: FastifyReply
+    ) => {
+        const { openid } = request.params;
+        const account = resolveRouteAccount(request.params, reply);
+        if (!account) return reply;
 
-            // For streaming, we accumulate chunks and only send when done
-            // This could be improved with a buffer/accumulator in Redis
+        const auth = await verifyCallback(request, account, openid);
+        if (!auth.ok) {
+            console.warn(`Rejected stream callback for OpenID ${openid}: ${auth.reason}`);
+            return reply.code(auth.status).send({ ok: false, error: auth.reason });
+        }
 
-            if (done) {
-                // Final chunk - send the full message
-                const sent = await sendTextMessage(openid, chunk);
-                return reply.send({ ok: sent });
-            }
+        const result = await handleStreamChunk(account, openid, auth.taskId, auth.task, request.body);
+        return reply.send(result);
+    };
 
-            // Intermediate chunk - acknowledge but don't send yet
-            console.log(`Received stream chunk ${chunk_index || '?'} for ${openid}`);
-            return reply.send({ ok: true, buffered: true });
-        }
-    );
+    fastify.post('/callback/:openid', handleResult);
+    fastify.post('/callback/:appKey/:openid', handleResult);
+    fastify.post('/callback/:openid/stream', handleStream);
+    fastify.post('/callback/:appKey/:openid/stream', handleStream);
 }
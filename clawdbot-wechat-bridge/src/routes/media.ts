@@ -0,0 +1,33 @@
+import fs from 'fs';
+import { FastifyInstance } from 'fastify';
+import { getStoredMedia } from '../services/media-store.js';
+
+interface MediaParams {
+    id: string;
+}
+
+export async function mediaRoutes(fastify: FastifyInstance): Promise<void> {
+    /**
+     * GET /media/:id - Serve inbound media downloaded from WeChat
+     * The random ID is the only credential, and the file expires after the media TTL
+     */
+    fastify.get<{ Params: MediaParams }>(
+        '/media/:id',
+        async (request, reply) => {
+            if (!/^[0-9a-f]{32}$/.test(request.params.id)) {
+                return reply.code(404).send('Not found');
+            }
+
+            const media = await getStoredMedia(request.params.id);
+            if (!media) {
+                return reply.code(404).send('Not found');
+            }
+
+            return reply
+                .type(media.mimeType)
+                .header('Content-Length', media.size)
+                .header('Cache-Control', 'private, max-age=3600')
+                .send(fs.createReadStream(media.file));
+        }
+    );
+}
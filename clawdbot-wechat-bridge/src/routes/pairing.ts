@@ -0,0 +1,58 @@
+import { FastifyInstance } from 'fastify';
+import { getConfig } from '../config.js';
+import { registerPairing, allowPairingAttempt, PairingRegistration } from '../services/pairing.js';
+import { safeEqual } from '../utils/signature.js';
+
+export async function pairingRoutes(fastify: FastifyInstance): Promise<void> {
+    /**
+     * POST /pair - Register a one-time bind code generated by the plugin
+     * Requires `Authorization: Bearer <PAIRING_SECRET>` and is rate limited per client IP.
+     * With `qr: true` a temporary parametric QR code for the code is created as well
+     * (behind the same checks, with a lower per-IP allowance).
+     * Nothing is bound until a user sends `bind <code>` and the plugin confirms it
+     */
+    fastify.post<{ Body: PairingRegistration }>(
+        '/pair',
+        async (request, reply) => {
+            if (!(await allowPairingAttempt(request.ip))) {
+                console.warn(`Rejected bind code registration from ${request.ip}: rate limit exceeded`);
+                return reply.code(429).send({ ok: false, error: 'Too many registrations, try again later' });
+            }
+
+            const { secret } = getConfig().pairing;
+            if (!secret) {
+                console.warn(`Rejected bind code registration from ${request.ip}: PAIRING_SECRET is not set`);
+                return reply.code(403).send({ ok: false, error: 'Bind code registration is disabled on this bridge' });
+            }
+            const provided = request.headers.authorization?.replace(/^Bearer\s+/i, '') || '';
+            if (!safeEqual(secret, provided)) {
+                console.warn(`Rejected bind code registration from ${request.ip}: wrong pairing secret`);
+                return reply.code(401).send({ ok: false, error: 'Unauthorized' });
+            }
+
+            if (request.body?.qr && !(await allowPairingAttempt(request.ip, 'qr'))) {
+                console.warn(`Rejected bind QR code request from ${request.ip}: rate limit exceeded`);
+                return reply.code(429).send({ ok: false, error: 'Too many QR codes requested, try again later' });
+            }
+
+            const result = await registerPairing(request.body || ({} as PairingRegistration));
+            if (!result.ok) {
+                console.warn(`Rejected bind code registration from ${request.ip}: ${result.error}`);
+                return reply.code(result.status).send({ ok: false, error: result.error });
+            }
+
+            console.log(`Registered ${request.body.transport || 'http'} bind code from ${request.ip} (expires in ${result.expiresIn}s)`);
+            return reply.code(201).send({
+                ok: true,
+                expires_in: result.expiresIn,
+                qr: result.qr && {
+                    ticket: result.qr.ticket,
+                    url: result.qr.url,
+                    image_url: result.qr.imageUrl,
+                    expires_in: result.qr.expiresIn,
+                },
+                qr_error: result.qrError,
+            });
+        }
+    );
+}
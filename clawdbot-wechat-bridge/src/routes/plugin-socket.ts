@@ -0,0 +1,12 @@
+import { FastifyInstance } from 'fastify';
+import { handlePluginSocket } from '../services/plugin-socket.js';
+
+export async function pluginSocketRoutes(fastify: FastifyInstance): Promise<void> {
+    /**
+     * GET /ws - Persistent connection opened by the plugin
+     * Lets plugins without a public URL receive tasks and send replies
+     */
+    fastify.get('/ws', { websocket: true }, (socket, request) => {
+        handlePluginSocket(socket, request.ip);
+    });
+}
@@ -1,9 +1,25 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { getConfig } from '../config.js';
-import { validateSignature } from '../utils/signature.js';
+import { getAccount, getDefaultAccount, WeChatAccount } from '../config.js';
 import { parseWeChatXml, buildTextReply } from '../utils/xml-parser.js';
-import { getBinding, setBinding, deleteBinding } from '../services/redis.js';
-import { forwardToClawdbot } from '../services/clawdbot-forwarder.js';
+import { getBinding, deleteBinding, getBindingLastUsed, UserBinding } from '../services/bindings.js';
+import { verifyWeChatRequest } from '../services/wechat-auth.js';
+import { takePairing, bindWithPairing, describeBinding } from '../services/pairing.js';
+import { parseBindScene } from '../services/qrcode.js';
+import { forwardToClawdbot, sendControlToClawdbot, ControlAction } from '../services/clawdbot-forwarder.js';
+import { probeBinding, describeProbeFailure } from '../services/endpoint-probe.js';
+import { sendTextMessage } from '../services/wechat-message.js';
+import {
+    getMessageId,
+    getDedupeKey,
+    claimMessage,
+    saveReply,
+    waitForReply,
+    deferReply,
+    getDeferredReply,
+    countDelivery,
+} from '../services/dedupe.js';
+import { openPassiveReply, awaitPassiveReply, hasPassiveReplies, FETCH_COMMAND } from '../services/passive-reply.js';
+import { onUserInteraction, countHeldReplies, releaseHeldReplies } from '../services/held-replies.js';
 import {
     decryptMessage,
     encryptMessage,
@@ -13,10 +29,193 @@ import {
     generateMsgSignature,
 } from '../utils/crypto.js';
 
-// Bind command format: bind <url> <token>
-const BIND_REGEX = /^bind\s+(\S+)\s+(\S+)$/i;
+// Bind command format: bind <code> (the one-time code generated by the plugin)
+const BIND_REGEX = /^bind\s+([A-Za-z0-9]{6,12})$/i;
+// The old format, which put the URL and token in the chat: bind <url> <token>
+const LEGACY_BIND_REGEX = /^bind\s+\S+\s+\S+$/i;
 // Unbind command
 const UNBIND_REGEX = /^unbind$/i;
+// Fetch replies held while the customer-service window was closed
+const READ_HELD_REGEX = /^(查看回复|read)$/i;
+// In-chat commands: /help, /status, ...
+const COMMAND_REGEX = /^\/([a-z]+)$/i;
+// Events that count as user interaction and reopen the customer-service window
+const INTERACTION_EVENTS = new Set(['subscribe', 'SCAN', 'CLICK', 'VIEW']);
+
+/**
+ * Text for a passive reply. When `follows` is set the text only says we are
+ * working on it, and the result is sent as a separate message.
+ */
+interface ReplyText {
+    text: string;
+    follows: boolean;
+}
+
+/**
+ * Start confirming a bind code with the plugin.
+ * `replyTo` names the message the result answers (sync reply mode).
+ */
+async function startBind(account: WeChatAccount, openId: string, code: string, replyTo?: string): Promise<ReplyText> {
+    const pending = await takePairing(code);
+    if (!pending) {
+        return { text: '❌ 绑定码无效或已过期，请在 Clawdbot 插件中重新生成。', follows: false };
+    }
+
+    // The plugin confirms the code before anything is saved; the result follows as a separate message
+    bindWithPairing(account, openId, pending, replyTo);
+    return { text: '🔐 正在与你的 Clawdbot 确认绑定，请稍候...', follows: true };
+}
+
+const BIND_PROMPT = `👋 请先绑定你的 Clawdbot 实例。
+
+在 Clawdbot 插件中生成绑定码后发送：
+bind <绑定码>
+
+例如：
+bind K7M2Q9XP`;
+
+interface CommandContext {
+    account: WeChatAccount;
+    openId: string;
+    binding: UserBinding | null;
+    replyTo?: string; // Sync reply mode: the command message, which a result that follows answers
+}
+
+// follows: the command's result is sent separately (see ReplyText)
+type ChatCommand =
+    | { description: string; needsBinding: false; follows?: boolean; run(context: CommandContext): Promise<string> }
+    | { description: string; needsBinding: true; follows?: boolean; run(context: CommandContext & { binding: UserBinding }): Promise<string> };
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' });
+}
+
+/**
+ * Check the bound instance and report back (a probe can take longer than
+ * WeChat waits for a passive reply, so the result is sent separately)
+ */
+function reportStatus(account: WeChatAccount, openId: string, binding: UserBinding, replyTo?: string): void {
+    Promise.all([probeBinding(binding), getBindingLastUsed(account, openId)])
+        .then(([probe, lastUsed]) => {
+            const { instance, via } = describeBinding(binding);
+            const state = probe.ok
+                ? `✅ 在线（延迟 ${probe.latencyMs} ms）`
+                : `❌ 无法访问：${describeProbeFailure(probe)}`;
+            return sendTextMessage(account, openId, `📡 Clawdbot 状态
+
+实例：${instance}
+连接方式：${via}
+状态：${state}
+最近使用：${lastUsed ? formatTime(lastUsed) : '暂无'}`, replyTo);
+        })
+        .catch((error) => {
+            console.error(`Failed to report status to ${openId}:`, error);
+        });
+}
+
+/**
+ * Send a control message to the plugin; it acknowledges through the callback
+ */
+function sendControl(
+    account: WeChatAccount,
+    openId: string,
+    binding: UserBinding,
+    control: ControlAction,
+    replyTo?: string
+): void {
+    sendControlToClawdbot(account, openId, binding, control, replyTo).catch(async (error) => {
+        console.error(`Failed to send ${control} to Clawdbot for ${openId}:`, error);
+        await sendTextMessage(account, openId, '❌ 无法把指令发送到你的 Clawdbot，请稍后再试或发送 /status 检查连接。', replyTo)
+            .catch((sendError) => console.error(`Failed to report ${control} failure to ${openId}:`, sendError));
+    });
+}
+
+const COMMANDS: Record<string, ChatCommand> = {
+    help: {
+        description: '查看可用指令',
+        needsBinding: false,
+        run: async () => `📖 可用指令
+
+${Object.entries(COMMANDS).map(([name, command]) => `/${name} - ${command.description}`).join('\n')}
+bind <绑定码> - 绑定 Clawdbot 实例
+unbind - 解除绑定
+
+其他消息会直接发送给你的 Clawdbot。`,
+    },
+    status: {
+        description: '检查 Clawdbot 是否在线',
+        needsBinding: true,
+        follows: true,
+        run: async ({ account, openId, binding, replyTo }) => {
+            reportStatus(account, openId, binding, replyTo);
+            return '🔍 正在检查你的 Clawdbot，请稍候...';
+        },
+    },
+    reset: {
+        description: '开始新的会话',
+        needsBinding: true,
+        follows: true,
+        run: async ({ account, openId, binding, replyTo }) => {
+            sendControl(account, openId, binding, 'reset', replyTo);
+            return '🔄 正在开始新的会话...';
+        },
+    },
+    cancel: {
+        description: '取消正在执行的任务',
+        needsBinding: true,
+        follows: true,
+        run: async ({ account, openId, binding, replyTo }) => {
+            sendControl(account, openId, binding, 'cancel', replyTo);
+            return '⏹ 正在取消当前任务...';
+        },
+    },
+    whoami: {
+        description: '查看 OpenID 和绑定信息',
+        needsBinding: false,
+        run: async ({ account, openId, binding }) => {
+            const lines = [`🪪 你的信息`, '', `OpenID：${openId}`];
+            if (!account.default) {
+                lines.push(`公众号：${account.key}`);
+            }
+            if (binding) {
+                const { instance, via } = describeBinding(binding);
+                lines.push(`绑定实例：${instance}`, `连接方式：${via}`, `绑定时间：${formatTime(binding.createdAt)}`);
+            } else {
+                lines.push('绑定状态：未绑定');
+            }
+            return lines.join('\n');
+        },
+    },
+};
+
+/**
+ * Run an in-chat command; returns the passive reply text,
+ * or null if the text is not one of our commands (it then goes to the agent)
+ */
+async function runCommand(context: CommandContext, text: string): Promise<ReplyText | null> {
+    const match = text.match(COMMAND_REGEX);
+    const command = match && Object.hasOwn(COMMANDS, match[1].toLowerCase()) ? COMMANDS[match[1].toLowerCase()] : null;
+    if (!command) return null;
+
+    const follows = command.follows === true;
+    if (!command.needsBinding) {
+        return { text: await command.run(context), follows };
+    }
+    const { binding } = context;
+    return binding ? { text: await command.run({ ...context, binding }), follows } : { text: BIND_PROMPT, follows: false };
+}
+
+/**
+ * Refuse a request that failed verification, logging why
+ */
+function reject(request: FastifyRequest, reply: FastifyReply, account: WeChatAccount, status: number, reason: string) {
+    console.warn(`Rejected ${request.method} /wechat request for account ${account.key} from ${request.ip}: ${reason}`);
+    return reply.code(status).send(reason);
+}
+
+interface WeChatParams {
+    appKey?: string; // Official account; absent on the default account's route
+}
 
 interface WeChatQueryParams {
     signature: string;
@@ -29,37 +228,41 @@ interface WeChatQueryParams {
 }
 
 export async function wechatRoutes(fastify: FastifyInstance): Promise<void> {
-    const config = getConfig();
-
     /**
      * GET /wechat - WeChat server validation endpoint
+     * (GET /wechat/:appKey for accounts other than the default)
      * WeChat sends GET to verify our server
      */
-    fastify.get<{ Querystring: WeChatQueryParams }>(
-        '/wechat',
+    fastify.get<{ Params: WeChatParams; Querystring: WeChatQueryParams }>(
+        '/wechat/:appKey?',
         async (request, reply) => {
             const { signature, timestamp, nonce, echostr } = request.query;
 
-            if (!signature || !timestamp || !nonce) {
-                return reply.code(400).send('Missing parameters');
+            const account = request.params.appKey ? getAccount(request.params.appKey) : getDefaultAccount();
+            if (!account) {
+                return reply.code(404).send('Unknown account');
             }
 
-            const isValid = validateSignature(config.wechat.token, signature, timestamp, nonce);
+            const auth = await verifyWeChatRequest(account, signature, timestamp, nonce, echostr || '');
+            if (!auth.ok) {
+                return reject(request, reply, account, auth.status, auth.reason);
+            }
 
-            if (isValid && echostr) {
+            if (echostr) {
                 // Return echostr for WeChat verification
                 return reply.type('text/plain').send(echostr);
             }
 
-            return reply.code(403).send('Invalid signature');
+            return reply.code(400).send('Missing echostr');
         }
     );
 
     /**
      * POST /wechat - Handle incoming WeChat messages
+     * (POST /wechat/:appKey for accounts other than the default)
      */
-    fastify.post<{ Querystring: WeChatQueryParams }>(
-        '/wechat',
+    fastify.post<{ Params: WeChatParams; Querystring: WeChatQueryParams }>(
+        '/wechat/:appKey?',
         {
             config: {
                 rawBody: true, // We need raw body for XML
@@ -68,26 +271,27 @@ export async function wechatRoutes(fastify: FastifyInstance): Promise<void> {
         async (request, reply) => {
             const { signature, timestamp, nonce, encrypt_type, msg_signature } = request.query;
 
-            // Validate signature
-            if (!signature || !timestamp || !nonce) {
-                return reply.code(400).send('Missing parameters');
-            }
-
-            const isValid = validateSignature(config.wechat.token, signature, timestamp, nonce);
-            if (!isValid) {
-                return reply.code(403).send('Invalid signature');
+            const account = request.params.appKey ? getAccount(request.params.appKey) : getDefaultAccount();
+            if (!account) {
+                return reply.code(404).send('Unknown account');
             }
 
             // Parse XML message
             let message;
             const body = request.body as string;
+
+            // Validate signature, timestamp and nonce
+            const auth = await verifyWeChatRequest(account, signature, timestamp, nonce, body || '');
+            if (!auth.ok) {
+                return reject(request, reply, account, auth.status, auth.reason);
+            }
             const isEncrypted = encrypt_type === 'aes';
 
             try {
                 if (isEncrypted) {
                     // Handle encrypted message
-                    if (!config.wechat.encodingAESKey) {
-                        console.error('Encrypted message received but WECHAT_ENCODING_AES_KEY not configured');
+                    if (!account.encodingAESKey) {
+                        console.error(`Encrypted message received but no encodingAESKey configured for ${account.key}`);
                         return reply.code(500).send('Encryption key not configured');
                     }
 
@@ -97,26 +301,19 @@ export async function wechatRoutes(fastify: FastifyInstance): Promise<void> {
                         return reply.code(400).send('Missing encrypted content');
                     }
 
-                    // Validate msg_signature
-                    if (msg_signature) {
-                        const isValidMsgSig = validateMsgSignature(
-                            config.wechat.token,
-                            timestamp,
-                            nonce,
-                            encryptedContent,
-                            msg_signature
-                        );
-                        if (!isValidMsgSig) {
-                            console.error('Invalid msg_signature');
-                            return reply.code(403).send('Invalid msg_signature');
-                        }
+                    // Validate msg_signature (always sent in safe mode)
+                    if (!msg_signature) {
+                        return reject(request, reply, account, 403, 'Missing msg_signature');
+                    }
+                    if (!validateMsgSignature(account.token, timestamp, nonce, encryptedContent, msg_signature)) {
+                        return reject(request, reply, account, 403, 'Invalid msg_signature');
                     }
 
                     // Decrypt the message
                     const decryptedXml = decryptMessage(
                         encryptedContent,
-                        config.wechat.encodingAESKey,
-                        config.wechat.appId
+                        account.encodingAESKey,
+                        account.appId
                     );
                     console.log('Decrypted message:', decryptedXml);
                     message = parseWeChatXml(decryptedXml);
@@ -135,18 +332,21 @@ export async function wechatRoutes(fastify: FastifyInstance): Promise<void> {
             /**
              * Helper function to send reply (handles encryption if needed)
              */
-            const sendReply = (plainXml: string) => {
-                if (isEncrypted && config.wechat.encodingAESKey) {
+            const sendEncoded = (plainXml: string) => {
+                if (plainXml === '') {
+                    return reply.type('text/plain').send('');
+                }
+                if (isEncrypted && account.encodingAESKey) {
                     // Encrypt the response
                     const encrypted = encryptMessage(
                         plainXml,
-                        config.wechat.encodingAESKey,
-                        config.wechat.appId
+                        account.encodingAESKey,
+                        account.appId
                     );
                     const replyTimestamp = String(Math.floor(Date.now() / 1000));
                     const replyNonce = String(Math.floor(Math.random() * 1000000000));
                     const replySignature = generateMsgSignature(
-                        config.wechat.token,
+                        account.token,
                         replyTimestamp,
                         replyNonce,
                         encrypted
@@ -159,87 +359,170 @@ export async function wechatRoutes(fastify: FastifyInstance): Promise<void> {
                 }
             };
 
+            // WeChat retries a push up to three times if we are slow to answer.
+            // Only the first delivery is processed; retries get the same passive reply.
+            const dedupeKey = getDedupeKey(account, message);
+            const messageId = getMessageId(message);
+            // Sync reply mode: results that follow are this message's passive reply
+            const replyTo = account.replyMode === 'sync' ? messageId : undefined;
+            const sendReply = async (plainXml: string) => {
+                await saveReply(dedupeKey, plainXml);
+                return sendEncoded(plainXml);
+            };
+
+            /**
+             * Sync reply mode: answer with the agent's reply if it comes in time,
+             * otherwise stay silent so WeChat delivers the message again.
+             * With `fetch`, answer with results kept for "1" instead.
+             */
+            const sendAgentReply = async (delivery: number, fetch = false) => {
+                const answer = await awaitPassiveReply(account, openId, toUser, messageId, delivery, fetch);
+                return answer !== null ? sendReply(answer) : sendEncoded('');
+            };
+
+            /**
+             * Answer with a reply text. In sync reply mode a result that follows
+             * separately lands in the passive outbox, so wait for it and answer
+             * with the result itself.
+             */
+            const sendReplyText = async ({ text, follows }: ReplyText) => {
+                if (follows && account.replyMode === 'sync') {
+                    await deferReply(dedupeKey);
+                    return sendAgentReply(1);
+                }
+                return sendReply(buildTextReply(openId, toUser, text));
+            };
+
+            if (!(await claimMessage(dedupeKey))) {
+                const deferred = await getDeferredReply(dedupeKey);
+                if (deferred) {
+                    const delivery = (await countDelivery(dedupeKey)) + 1;
+                    console.log(`Delivery ${delivery} of ${dedupeKey}, still waiting for the agent`);
+                    return sendAgentReply(delivery, deferred === 'fetch');
+                }
+                console.log(`Duplicate delivery of ${dedupeKey}, replaying passive reply`);
+                const previous = await waitForReply(dedupeKey);
+                return sendEncoded(previous ?? '');
+            }
+
+            if (replyTo) {
+                await openPassiveReply(account, replyTo);
+            }
+
+            // Any message or click reopens the 48h customer-service window
+            if (message.MsgType === 'text' && READ_HELD_REGEX.test((message.Content || '').trim())) {
+                const count = await countHeldReplies(account, openId);
+                if (count > 0) {
+                    await releaseHeldReplies(account, openId);
+                    return sendReply(buildTextReply(openId, toUser, `📬 正在发送 ${count} 条未读回复...`));
+                }
+            } else if (message.MsgType !== 'event' || INTERACTION_EVENTS.has(message.Event || '')) {
+                onUserInteraction(account, openId).catch((error) => {
+                    console.error(`Failed to handle held replies for ${openId}:`, error);
+                });
+            }
+
             // Handle events
             if (message.MsgType === 'event') {
+                // Scanning a bind QR code: subscribe (new follower) or SCAN (already following)
+                const bindCode = message.Event === 'subscribe' || message.Event === 'SCAN'
+                    ? parseBindScene(message.EventKey)
+                    : null;
+
+                if (message.Event === 'subscribe' && bindCode) {
+                    const result = await startBind(account, openId, bindCode, replyTo);
+                    return sendReplyText({ ...result, text: `👋 欢迎关注！\n\n${result.text}` });
+                }
+                if (bindCode) {
+                    return sendReplyText(await startBind(account, openId, bindCode, replyTo));
+                }
+
                 if (message.Event === 'subscribe') {
                     // New follower - send welcome message
                     const welcomeMsg = `👋 欢迎关注！
 
-这是一个 Clawdbot 桥接服务。请发送以下指令绑定你的 Clawdbot 实例：
+这是一个 Clawdbot 桥接服务。请先在你的 Clawdbot 插件中生成绑定码，然后发送：
 
-bind <你的Clawdbot地址> <Token>
+bind <绑定码>
 
 例如：
-bind https://my-clawdbot.example.com/webhook abc123
+bind K7M2Q9XP
 
 绑定后，你可以直接发送消息与你的 Clawdbot 对话。
 
 其他指令：
-• unbind - 解除绑定`;
+• unbind - 解除绑定
+• /help - 查看全部指令`;
                     return sendReply(buildTextReply(openId, toUser, welcomeMsg));
                 }
                 // Other events: return empty
-                return reply.type('text/plain').send('');
+                return sendReply('');
             }
 
             // Check binding
-            const binding = await getBinding(openId);
+            const binding = await getBinding(account, openId);
+
+            if (message.MsgType === 'text' && message.Content) {
+                const commandReply = await runCommand({ account, openId, binding, replyTo }, message.Content.trim());
+                if (commandReply !== null) {
+                    return sendReplyText(commandReply);
+                }
+            }
+
+            // Sync reply mode: "1" fetches replies that did not fit in earlier passive replies
+            if (
+                account.replyMode === 'sync' &&
+                message.MsgType === 'text' &&
+                (message.Content || '').trim() === FETCH_COMMAND &&
+                (await hasPassiveReplies(account, openId))
+            ) {
+                await deferReply(dedupeKey, 'fetch');
+                return sendAgentReply(1, true);
+            }
 
             if (!binding) {
                 // Not bound - check if this is a bind command
                 if (message.MsgType === 'text' && message.Content) {
-                    const bindMatch = message.Content.match(BIND_REGEX);
+                    const content = message.Content.trim();
+                    const bindMatch = content.match(BIND_REGEX);
                     if (bindMatch) {
-                        const [, endpoint, token] = bindMatch;
-
-                        // Basic URL validation
-                        try {
-                            new URL(endpoint);
-                        } catch {
-                            return sendReply(
-                                buildTextReply(openId, toUser, '❌ 无效的 URL 格式，请检查后重试。')
-                            );
-                        }
-
-                        await setBinding(openId, endpoint, token);
-                        return sendReply(
-                            buildTextReply(openId, toUser, `✅ 绑定成功！
+                        return sendReplyText(await startBind(account, openId, bindMatch[1], replyTo));
+                    }
 
-你的 Clawdbot 地址：${endpoint}
+                    if (LEGACY_BIND_REGEX.test(content)) {
+                        return sendReply(
+                            buildTextReply(openId, toUser, `⚠️ 为了安全，已不再支持在聊天中发送地址和 Token。
 
-现在可以直接发送消息与你的 Clawdbot 对话了。
+请在 Clawdbot 插件中生成一次性绑定码，然后发送 bind <绑定码>。
 
-提示：发送 unbind 可以解除绑定。`)
+你刚才发送的 Token 已出现在聊天记录中，建议在插件中更换。`)
                         );
                     }
                 }
 
                 // Not a bind command - prompt user to bind
-                return sendReply(
-                    buildTextReply(openId, toUser, `👋 请先绑定你的 Clawdbot 实例。
-
-发送格式：
-bind <你的Clawdbot地址> <Token>
-
-例如：
-bind https://my-clawdbot.example.com/webhook abc123`)
-                );
+                return sendReply(buildTextReply(openId, toUser, BIND_PROMPT));
             }
 
             // Already bound - check for unbind command
             if (message.MsgType === 'text' && message.Content) {
                 if (UNBIND_REGEX.test(message.Content.trim())) {
-                    await deleteBinding(openId);
+                    await deleteBinding(account, openId);
                     return sendReply(
                         buildTextReply(openId, toUser, `✅ 已解除绑定。
 
-你可以随时使用 bind 指令重新绑定新的 Clawdbot 实例。`)
+你可以随时生成新的绑定码，使用 bind 指令重新绑定。`)
                     );
                 }
             }
 
             // Forward message to Clawdbot (async, fire-and-forget)
-            forwardToClawdbot(message, binding);
+            forwardToClawdbot(account, message, binding, replyTo);
+
+            if (account.replyMode === 'sync') {
+                await deferReply(dedupeKey);
+                return sendAgentReply(1);
+            }
 
             // Return empty string immediately to avoid WeChat timeout
             // We use customer service message API later to send the actual response
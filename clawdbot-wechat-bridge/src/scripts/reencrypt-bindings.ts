@@ -0,0 +1,39 @@
+import { getConfig } from '../config.js';
+import { reencryptBindings } from '../services/bindings.js';
+import { closeStore } from '../storage/store.js';
+
+/**
+ * Re-encrypt every stored binding with the active key (the first entry of
+ * BINDING_ENCRYPTION_KEYS). Run it after putting a new key in front; the old
+ * key can be removed once it reports no failures.
+ *
+ *   npm run reencrypt-bindings
+ */
+async function main() {
+    const config = getConfig();
+    if (config.bindings.encryptionKeys.length === 0) {
+        console.error('BINDING_ENCRYPTION_KEYS is not set, nothing to encrypt with');
+        process.exitCode = 1;
+        return;
+    }
+
+    console.log(`Re-encrypting bindings with key ${config.bindings.encryptionKeys[0].id}...`);
+    let failed = 0;
+    for (const account of config.accounts) {
+        const stats = await reencryptBindings(account);
+        failed += stats.failed;
+        console.log(`  Account ${account.key}: ${stats.total} binding(s), ${stats.updated} re-encrypted, ${stats.failed} failed`);
+    }
+
+    if (failed > 0) {
+        console.error(`${failed} binding(s) could not be read; keep the old keys until they are fixed or removed`);
+        process.exitCode = 1;
+    }
+}
+
+main()
+    .catch((error) => {
+        console.error('Re-encryption failed:', error);
+        process.exitCode = 1;
+    })
+    .finally(() => closeStore());
@@ -0,0 +1,257 @@
+import crypto from 'crypto';
+import { getConfig, WeChatAccount } from '../config.js';
+import { getStore, accountKey } from '../storage/store.js';
+import { encryptSecret, decryptSecret, needsReencryption } from '../utils/secret-box.js';
+
+/**
+ * User binding structure.
+ * `token` and `callbackSecret` are encrypted in storage when BINDING_ENCRYPTION_KEYS
+ * is set; the functions here always return them decrypted.
+ */
+export interface UserBinding {
+    id: string;             // Unique ID of this binding (changes on every bind)
+    transport?: BindingTransport; // How the bridge reaches the plugin (default: http)
+    endpoint: string;       // Clawdbot webhook URL (empty for ws bindings)
+    token: string;          // Authentication token for the Clawdbot instance
+    callbackSecret: string; // HMAC secret the plugin uses to sign callbacks
+    accountName?: string;   // Name of the Clawdbot account, as reported by the plugin
+    pluginVersion?: string; // Plugin version at the time of binding
+    createdAt: number;
+}
+
+/**
+ * Details reported by the plugin when a binding is confirmed
+ */
+export type BindingDetails = Pick<UserBinding, 'accountName' | 'pluginVersion'>;
+
+/**
+ * http: the bridge POSTs to the plugin's public webhook URL
+ * ws:   the plugin keeps an outbound WebSocket open to the bridge
+ */
+export type BindingTransport = 'http' | 'ws';
+
+const BINDING_PREFIX = 'wechat:binding:';
+const LAST_USED_PREFIX = 'wechat:lastused:'; // When a bound user's message was last forwarded
+const SOCKET_TOKEN_PREFIX = 'wechat:ws:token:'; // token hash -> OpenIDs bound over ws (shared by all accounts)
+const SOCKET_PENDING_PREFIX = 'wechat:ws:pending:'; // token hash of ws plugins waiting for a bind code to be used
+
+/**
+ * Encrypt a secret for storage (kept as is when no encryption key is configured).
+ * `field` names what the secret is, so it can't be swapped with another one.
+ */
+export function sealSecret(value: string, field: string): string {
+    const keys = getConfig().bindings.encryptionKeys;
+    return keys.length > 0 ? encryptSecret(value, keys, field) : value;
+}
+
+/**
+ * Decrypt a stored secret (plaintext from before encryption was enabled passes through)
+ */
+export function openSecret(value: string, field: string): string {
+    return decryptSecret(value, getConfig().bindings.encryptionKeys, field);
+}
+
+function serializeBinding(binding: UserBinding): string {
+    return JSON.stringify({
+        ...binding,
+        token: sealSecret(binding.token, 'binding.token'),
+        callbackSecret: sealSecret(binding.callbackSecret, 'binding.callbackSecret'),
+    });
+}
+
+/**
+ * Whether a stored binding is plaintext or encrypted with a retired key
+ */
+function needsUpgrade(stored: UserBinding): boolean {
+    const keys = getConfig().bindings.encryptionKeys;
+    return needsReencryption(stored.token || '', keys) || needsReencryption(stored.callbackSecret || '', keys);
+}
+
+/**
+ * Member of the ws token index for an account's OpenID
+ */
+function socketIndexMember(account: WeChatAccount, openId: string): string {
+    return account.default ? openId : `${account.key}:${openId}`;
+}
+
+/**
+ * Set user binding (OpenID -> Clawdbot endpoint)
+ */
+export async function setBinding(
+    account: WeChatAccount,
+    openId: string,
+    endpoint: string,
+    token: string,
+    transport: BindingTransport = 'http',
+    details: BindingDetails = {}
+): Promise<UserBinding> {
+    const store = getStore();
+    await unindexSocketBinding(account, openId);
+
+    const binding: UserBinding = {
+        id: crypto.randomUUID(),
+        transport,
+        endpoint,
+        token,
+        callbackSecret: generateCallbackSecret(),
+        ...details,
+        createdAt: Date.now(),
+    };
+    await store.set(accountKey(account, BINDING_PREFIX) + openId, serializeBinding(binding));
+
+    if (transport === 'ws') {
+        await store.sadd(SOCKET_TOKEN_PREFIX + hashToken(token), socketIndexMember(account, openId));
+    }
+    return binding;
+}
+
+/**
+ * Get user binding by OpenID
+ */
+export async function getBinding(account: WeChatAccount, openId: string): Promise<UserBinding | null> {
+    const store = getStore();
+    const data = await store.get(accountKey(account, BINDING_PREFIX) + openId);
+    if (!data) return null;
+
+    let stored: UserBinding;
+    let binding: UserBinding;
+    try {
+        stored = JSON.parse(data) as UserBinding;
+        binding = {
+            ...stored,
+            token: openSecret(stored.token, 'binding.token'),
+            callbackSecret: stored.callbackSecret && openSecret(stored.callbackSecret, 'binding.callbackSecret'),
+        };
+    } catch (error) {
+        console.error(`Cannot read binding of ${openId}:`, error instanceof Error ? error.message : error);
+        return null;
+    }
+
+    // Bindings created before callback signing lack an ID and secret,
+    // and plaintext ones are encrypted the first time they are read
+    let upgrade = needsUpgrade(stored);
+    if (!binding.id || !binding.callbackSecret) {
+        binding.id = binding.id || crypto.randomUUID();
+        binding.callbackSecret = binding.callbackSecret || generateCallbackSecret();
+        upgrade = true;
+    }
+    if (upgrade) {
+        await store.set(accountKey(account, BINDING_PREFIX) + openId, serializeBinding(binding));
+    }
+
+    return binding;
+}
+
+/**
+ * Delete user binding
+ */
+export async function deleteBinding(account: WeChatAccount, openId: string): Promise<boolean> {
+    await unindexSocketBinding(account, openId);
+    const store = getStore();
+    await store.del(accountKey(account, LAST_USED_PREFIX) + openId);
+    const result = await store.del(accountKey(account, BINDING_PREFIX) + openId);
+    return result > 0;
+}
+
+/**
+ * Record that a message was forwarded over the user's binding
+ */
+export async function markBindingUsed(account: WeChatAccount, openId: string): Promise<void> {
+    await getStore().set(accountKey(account, LAST_USED_PREFIX) + openId, String(Date.now()));
+}
+
+/**
+ * When a message was last forwarded over the user's binding (null if never)
+ */
+export async function getBindingLastUsed(account: WeChatAccount, openId: string): Promise<number | null> {
+    const value = await getStore().get(accountKey(account, LAST_USED_PREFIX) + openId);
+    return value ? Number(value) : null;
+}
+
+/**
+ * Re-encrypt an account's bindings with the active key.
+ * Bindings are upgraded on read anyway; this covers the ones nobody reads,
+ * so a retired key can be removed.
+ */
+export async function reencryptBindings(account: WeChatAccount): Promise<{ total: number; updated: number; failed: number }> {
+    const store = getStore();
+    const prefix = accountKey(account, BINDING_PREFIX);
+    const stats = { total: 0, updated: 0, failed: 0 };
+
+    for await (const key of store.scan(prefix)) {
+        stats.total++;
+        const data = await store.get(key);
+        if (!data) continue;
+
+        let stored: UserBinding;
+        try {
+            stored = JSON.parse(data) as UserBinding;
+        } catch {
+            stats.failed++;
+            continue;
+        }
+        if (!needsUpgrade(stored)) continue;
+
+        // Reading the binding rewrites it with the active key
+        if (await getBinding(account, key.slice(prefix.length))) {
+            stats.updated++;
+        } else {
+            stats.failed++;
+        }
+    }
+
+    return stats;
+}
+
+/**
+ * Check if user is bound
+ */
+export async function isBound(account: WeChatAccount, openId: string): Promise<boolean> {
+    return getStore().exists(accountKey(account, BINDING_PREFIX) + openId);
+}
+
+/**
+ * Check whether any user is bound over ws with the given token
+ */
+export async function isSocketTokenBound(tokenHash: string): Promise<boolean> {
+    return (await getStore().scard(SOCKET_TOKEN_PREFIX + tokenHash)) > 0;
+}
+
+/**
+ * Let a ws plugin authenticate for a while before anyone is bound to it,
+ * so the bridge can confirm a bind code over its socket
+ */
+export async function markSocketTokenPending(tokenHash: string, ttlSeconds: number): Promise<void> {
+    await getStore().set(SOCKET_PENDING_PREFIX + tokenHash, '1', { ttl: ttlSeconds });
+}
+
+/**
+ * Check whether a ws plugin with the given token has a bind code outstanding
+ */
+export async function isSocketTokenPending(tokenHash: string): Promise<boolean> {
+    return getStore().exists(SOCKET_PENDING_PREFIX + tokenHash);
+}
+
+/**
+ * Hash a plugin token (used to identify plugin sockets without storing the token)
+ */
+export function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Remove the OpenID from the ws token index of its current binding
+ */
+async function unindexSocketBinding(account: WeChatAccount, openId: string): Promise<void> {
+    const existing = await getBinding(account, openId);
+    if (existing?.transport === 'ws') {
+        await getStore().srem(SOCKET_TOKEN_PREFIX + hashToken(existing.token), socketIndexMember(account, openId));
+    }
+}
+
+/**
+ * Generate a random secret for signing callbacks
+ */
+function generateCallbackSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
+}
@@ -0,0 +1,74 @@
+import type { FastifyRequest } from 'fastify';
+import type { WeChatAccount } from '../config.js';
+import { getStore } from '../storage/store.js';
+import { getBinding, UserBinding } from './bindings.js';
+import { getTask, TaskRecord } from './task-store.js';
+import { CALLBACK_HEADERS, validateCallbackSignature } from '../utils/callback-signature.js';
+
+const NONCE_PREFIX = 'wechat:callback:nonce:';
+const MAX_CLOCK_SKEW = 300; // Seconds a callback timestamp may deviate from our clock
+
+export type CallbackAuthResult =
+    | { ok: true; binding: UserBinding; task: TaskRecord; taskId: string }
+    | { ok: false; status: 401 | 403; reason: string };
+
+function header(request: FastifyRequest, name: string): string | undefined {
+    const value = request.headers[name];
+    return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Verify a signed callback from the plugin:
+ * the signature must match the secret of the binding that started the task,
+ * the timestamp must be fresh and the nonce must not have been used before.
+ */
+export async function verifyCallback(
+    request: FastifyRequest,
+    account: WeChatAccount,
+    openId: string
+): Promise<CallbackAuthResult> {
+    const taskId = header(request, CALLBACK_HEADERS.taskId);
+    const timestamp = header(request, CALLBACK_HEADERS.timestamp);
+    const nonce = header(request, CALLBACK_HEADERS.nonce);
+    const signature = header(request, CALLBACK_HEADERS.signature);
+
+    if (!taskId || !timestamp || !nonce || !signature) {
+        return { ok: false, status: 401, reason: 'Missing callback signature headers' };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const ts = parseInt(timestamp, 10);
+    if (!Number.isFinite(ts) || Math.abs(now - ts) > MAX_CLOCK_SKEW) {
+        return { ok: false, status: 401, reason: 'Stale or invalid timestamp' };
+    }
+
+    const task = await getTask(taskId);
+    if (!task || task.openId !== openId || (task.accountKey ?? account.key) !== account.key) {
+        return { ok: false, status: 403, reason: 'Unknown task' };
+    }
+
+    const binding = await getBinding(account, openId);
+    if (!binding || binding.id !== task.bindingId) {
+        return { ok: false, status: 403, reason: 'Task does not belong to the current binding' };
+    }
+
+    const valid = validateCallbackSignature(
+        binding.callbackSecret,
+        timestamp,
+        nonce,
+        taskId,
+        request.rawBody ?? '',
+        signature
+    );
+    if (!valid) {
+        return { ok: false, status: 403, reason: 'Invalid signature' };
+    }
+
+    // Only mark the nonce as used once the signature checks out
+    const fresh = await getStore().set(NONCE_PREFIX + nonce, '1', { ttl: MAX_CLOCK_SKEW * 2, nx: true });
+    if (!fresh) {
+        return { ok: false, status: 403, reason: 'Replayed nonce' };
+    }
+
+    return { ok: true, binding, task, taskId };
+}
@@ -0,0 +1,102 @@
+import type { WeChatAccount } from '../config.js';
+import { buildTextMessages, CustomerServiceMessage } from './wechat-message.js';
+import { enqueueMessages } from './outbound-queue.js';
+import { buildMediaMessage, MediaRejectedError, OutboundMediaItem } from './media-upload.js';
+import { appendStreamChunk, StreamChunk } from './stream-buffer.js';
+import { stopTyping } from './typing.js';
+import type { TaskRecord } from './task-store.js';
+
+/**
+ * Callback payload from Clawdbot
+ */
+export interface ClawdbotCallbackPayload {
+    success: boolean;
+    result?: string;
+    error?: string;
+    media?: OutboundMediaItem[]; // Images, voice or video to send after the text
+    metadata?: {
+        chunks?: number;
+        thinking_time_ms?: number;
+    };
+}
+
+/**
+ * Streaming callback payload from Clawdbot
+ */
+export type ClawdbotStreamPayload = StreamChunk;
+
+/**
+ * Deliver a task result to the WeChat user.
+ * Shared by the HTTP callback route and the plugin WebSocket.
+ * Returns the reasons any media items could not be sent.
+ */
+export async function handleCallbackResult(
+    account: WeChatAccount,
+    openId: string,
+    task: TaskRecord,
+    payload: ClawdbotCallbackPayload
+): Promise<{ mediaErrors: string[] }> {
+    const { success, result, error, metadata } = payload;
+    const media = payload.media || [];
+
+    stopTyping(account, openId);
+
+    let messageContent: string;
+
+    if (success) {
+        messageContent = result || (media.length > 0 ? '' : '✅ 任务已完成（无返回内容）');
+    } else {
+        messageContent = `❌ 处理失败：${error || '未知错误'}`;
+    }
+
+    // Add thinking time info if available
+    if (metadata?.thinking_time_ms) {
+        const seconds = (metadata.thinking_time_ms / 1000).toFixed(1);
+        messageContent += `\n\n⏱️ 思考用时: ${seconds}s`;
+    }
+
+    const messages: CustomerServiceMessage[] = messageContent ? buildTextMessages(openId, messageContent) : [];
+
+    // Upload media up front; rejected items are reported instead of sent
+    const mediaErrors: string[] = [];
+    for (const item of media) {
+        try {
+            messages.push(await buildMediaMessage(account, openId, item));
+        } catch (err) {
+            const reason = err instanceof MediaRejectedError ? err.message : `Upload failed: ${err instanceof Error ? err.message : String(err)}`;
+            console.error(`Cannot send media to ${openId}: ${reason}`);
+            mediaErrors.push(reason);
+        }
+    }
+
+    if (mediaErrors.length > 0) {
+        messages.push(...buildTextMessages(openId, `⚠️ 有 ${mediaErrors.length} 个附件无法发送：\n${mediaErrors.join('\n')}`));
+    }
+
+    // Queue text and media as one ordered batch for the Customer Service API
+    const jobId = await enqueueMessages(account, openId, messages, task.replyTo);
+    console.log(`Queued response to ${openId} (job ${jobId})`);
+
+    return { mediaErrors };
+}
+
+/**
+ * Handle a streaming chunk.
+ * Chunks are buffered per task and sent in order; see stream-buffer.ts.
+ * Returns whether the chunk was handled and whether it was only buffered.
+ */
+export async function handleStreamChunk(
+    account: WeChatAccount,
+    openId: string,
+    taskId: string,
+    task: TaskRecord,
+    payload: ClawdbotStreamPayload
+): Promise<{ ok: boolean; buffered?: boolean }> {
+    if (typeof payload.chunk !== 'string') {
+        return { ok: false };
+    }
+    if (payload.done) {
+        stopTyping(account, openId);
+    }
+    return appendStreamChunk(account, openId, taskId, payload, task.replyTo);
+}
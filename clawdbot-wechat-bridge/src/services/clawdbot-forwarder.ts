@@ -1,7 +1,12 @@
 import axios from 'axios';
-import { getConfig } from '../config.js';
+import { getConfig, WeChatAccount } from '../config.js';
 import type { WeChatMessage } from '../utils/xml-parser.js';
-import type { UserBinding } from './redis.js';
+import { markBindingUsed, UserBinding } from './bindings.js';
+import { createTask } from './task-store.js';
+import { dispatchToPlugin } from './plugin-socket.js';
+import { pluginRequestConfig } from './endpoint-probe.js';
+import { fetchInboundMedia, MediaAttachment, MediaKind } from './media-store.js';
+import { startTyping } from './typing.js';
 
 /**
  * Payload sent to Clawdbot webhook
@@ -9,24 +14,54 @@ import type { UserBinding } from './redis.js';
 export interface ClawdbotWebhookPayload {
     task: string;
     callback_url: string;
+    task_id: string;         // Must be echoed in the X-Clawdbot-Task-Id callback header
+    callback_secret: string; // HMAC key for signing callbacks to callback_url
+    attachments?: MediaAttachment[];
     metadata: {
         openid: string;
         msg_type: string;
         msg_id?: string;
         timestamp: number;
+        reply_mode?: 'sync'; // Every message needs its own reply, so the plugin must not merge them
     };
 }
 
+/**
+ * What the plugin should do with the user's agent session, sent instead of a task
+ * reset:  start a fresh session
+ * cancel: abort the task that is running
+ */
+export type ControlAction = 'reset' | 'cancel';
+
+/**
+ * Control message sent to Clawdbot (the plugin acknowledges it through the callback)
+ */
+export interface ClawdbotControlPayload {
+    control: ControlAction;
+    callback_url: string;
+    task_id: string;
+    callback_secret: string;
+    metadata: {
+        openid: string;
+        timestamp: number;
+    };
+}
+
+export type PluginPayload = ClawdbotWebhookPayload | ClawdbotControlPayload;
+
 /**
  * Forward a WeChat message to the user's Clawdbot instance
- * This is done asynchronously (fire-and-forget)
+ * This is done asynchronously (fire-and-forget).
+ * `replyTo` names the message the result answers (sync reply mode).
  */
 export function forwardToClawdbot(
+    account: WeChatAccount,
     message: WeChatMessage,
-    binding: UserBinding
+    binding: UserBinding,
+    replyTo?: string
 ): void {
     // Fire-and-forget: don't await
-    doForward(message, binding).catch((error) => {
+    doForward(account, message, binding, replyTo).catch((error) => {
         console.error(`Failed to forward message to Clawdbot:`, error);
     });
 }
@@ -35,11 +70,11 @@ export function forwardToClawdbot(
  * Internal forwarding implementation
  */
 async function doForward(
+    account: WeChatAccount,
     message: WeChatMessage,
-    binding: UserBinding
+    binding: UserBinding,
+    replyTo?: string
 ): Promise<void> {
-    const config = getConfig();
-
     // Determine the task content based on message type
     let task: string;
     switch (message.MsgType) {
@@ -47,11 +82,15 @@ async function doForward(
             task = message.Content || '';
             break;
         case 'voice':
-            // Use voice recognition result if available
-            task = message.Recognition || '[语音消息，无法识别]';
+            // Use voice recognition result if available; the audio itself is attached
+            task = message.Recognition || '[语音消息]';
             break;
         case 'image':
-            task = `[图片消息] ${message.PicUrl || ''}`;
+            task = '[图片消息]';
+            break;
+        case 'video':
+        case 'shortvideo':
+            task = '[视频消息]';
             break;
         case 'location':
             task = `[位置消息] 经度: ${message.Location_Y}, 纬度: ${message.Location_X}, ${message.Label || ''}`;
@@ -63,22 +102,72 @@ async function doForward(
             task = `[${message.MsgType}消息]`;
     }
 
-    const callbackUrl = `${config.bridge.baseUrl}/callback/${message.FromUserName}`;
+    const attachments = await collectAttachments(account, message);
+    if (message.MsgType === 'image' && attachments.length === 0 && message.PicUrl) {
+        // Fall back to WeChat's own picture URL if the download failed
+        task += ` ${message.PicUrl}`;
+    }
+
+    const callbackUrl = buildCallbackUrl(account, message.FromUserName);
+    const taskId = await createTask(account, message.FromUserName, binding.id, replyTo);
 
     const payload: ClawdbotWebhookPayload = {
         task,
         callback_url: callbackUrl,
+        task_id: taskId,
+        callback_secret: binding.callbackSecret,
+        attachments: attachments.length > 0 ? attachments : undefined,
         metadata: {
             openid: message.FromUserName,
             msg_type: message.MsgType,
             msg_id: message.MsgId,
             timestamp: message.CreateTime,
+            reply_mode: account.replyMode === 'sync' ? 'sync' : undefined,
+        },
+    };
+
+    await deliverToPlugin(binding, payload);
+    await markBindingUsed(account, message.FromUserName);
+    startTyping(account, message.FromUserName);
+}
+
+/**
+ * Send a control message to the user's Clawdbot instance
+ */
+export async function sendControlToClawdbot(
+    account: WeChatAccount,
+    openId: string,
+    binding: UserBinding,
+    control: ControlAction,
+    replyTo?: string
+): Promise<void> {
+    const payload: ClawdbotControlPayload = {
+        control,
+        callback_url: buildCallbackUrl(account, openId),
+        task_id: await createTask(account, openId, binding.id, replyTo),
+        callback_secret: binding.callbackSecret,
+        metadata: {
+            openid: openId,
+            timestamp: Math.floor(Date.now() / 1000),
         },
     };
+    await deliverToPlugin(binding, payload);
+}
+
+/**
+ * Hand a payload to the plugin over the binding's transport
+ */
+async function deliverToPlugin(binding: UserBinding, payload: PluginPayload): Promise<void> {
+    if (binding.transport === 'ws') {
+        const result = await dispatchToPlugin(binding, payload);
+        console.log(`Forwarded message to Clawdbot over WebSocket: ${result}`);
+        return;
+    }
 
     console.log(`Forwarding message to Clawdbot: ${binding.endpoint}`);
 
     const response = await axios.post(binding.endpoint, payload, {
+        ...pluginRequestConfig(),
         headers: {
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${binding.token}`,
@@ -89,15 +178,49 @@ async function doForward(
     console.log(`Clawdbot responded with status: ${response.status}`);
 }
 
+/**
+ * Callback URL for a user: /callback/:openid for the default account,
+ * /callback/:appKey/:openid for the others
+ */
+export function buildCallbackUrl(account: WeChatAccount, openId: string): string {
+    const baseUrl = getConfig().bridge.baseUrl;
+    return account.default
+        ? `${baseUrl}/callback/${openId}`
+        : `${baseUrl}/callback/${account.key}/${openId}`;
+}
+
+/**
+ * Download the media of image, voice and video messages
+ */
+async function collectAttachments(account: WeChatAccount, message: WeChatMessage): Promise<MediaAttachment[]> {
+    const kinds: Partial<Record<WeChatMessage['MsgType'], MediaKind>> = {
+        image: 'image',
+        voice: 'voice',
+        video: 'video',
+        shortvideo: 'video',
+    };
+    const kind = kinds[message.MsgType];
+    if (!kind || !message.MediaId) return [];
+
+    try {
+        return [await fetchInboundMedia(account, String(message.MediaId), kind)];
+    } catch (error) {
+        // Still forward the message; the plugin just won't see the media
+        console.error(`Failed to download ${kind} media ${message.MediaId}:`, error);
+        return [];
+    }
+}
+
 /**
  * Synchronous forward for testing (waits for Clawdbot response)
  */
 export async function forwardToClawdbotSync(
+    account: WeChatAccount,
     message: WeChatMessage,
     binding: UserBinding
 ): Promise<boolean> {
     try {
-        await doForward(message, binding);
+        await doForward(account, message, binding);
         return true;
     } catch (error) {
         console.error('Failed to forward to Clawdbot:', error);
@@ -0,0 +1,116 @@
+import type { WeChatAccount } from '../config.js';
+import { getStore, accountKey } from '../storage/store.js';
+import type { WeChatMessage } from '../utils/xml-parser.js';
+
+const DEDUPE_PREFIX = 'wechat:dedupe:';
+const PENDING_TTL = 30;  // Seconds a claim may stay unanswered (covers all WeChat retries)
+const REPLY_TTL = 300;   // Seconds we remember the passive reply of a handled message
+const POLL_INTERVAL = 200;
+
+/**
+ * Sync reply mode: why a message was left unanswered so WeChat retries it
+ * answer: it waits for its own result
+ * fetch:  it is a "1" fetching results kept for the user (see passive-reply.ts)
+ */
+export type DeferredReply = 'answer' | 'fetch';
+
+interface DedupeRecord {
+    reply: string | null;     // Plain passive reply XML, null while still being handled
+    deferred?: DeferredReply;
+}
+
+/**
+ * Identify a message within its account.
+ * Regular messages carry a MsgId; events are identified by sender + time + event.
+ */
+export function getMessageId(message: WeChatMessage): string {
+    if (message.MsgId) {
+        return `msg:${message.MsgId}`;
+    }
+    return `event:${message.FromUserName}:${message.CreateTime}:${message.Event || ''}`;
+}
+
+/**
+ * Build the dedupe key for a message
+ */
+export function getDedupeKey(account: WeChatAccount, message: WeChatMessage): string {
+    return accountKey(account, DEDUPE_PREFIX) + getMessageId(message);
+}
+
+/**
+ * Claim a message for processing.
+ * Returns false if the message has been (or is being) handled already.
+ */
+export async function claimMessage(key: string): Promise<boolean> {
+    const store = getStore();
+    const record: DedupeRecord = { reply: null };
+    return store.set(key, JSON.stringify(record), { ttl: PENDING_TTL, nx: true });
+}
+
+/**
+ * Remember the passive reply sent for a message, so retries get the same answer
+ */
+export async function saveReply(key: string, reply: string): Promise<void> {
+    const store = getStore();
+    const record: DedupeRecord = { reply };
+    await store.set(key, JSON.stringify(record), { ttl: REPLY_TTL });
+}
+
+/**
+ * Leave a message unanswered on purpose: its retries answer it instead (see passive-reply.ts)
+ */
+export async function deferReply(key: string, deferred: DeferredReply = 'answer'): Promise<void> {
+    const store = getStore();
+    const record: DedupeRecord = { reply: null, deferred };
+    await store.set(key, JSON.stringify(record), { ttl: PENDING_TTL });
+}
+
+/**
+ * How the first delivery of a message deferred its reply to the retries, or null if it did not
+ */
+export async function getDeferredReply(key: string): Promise<DeferredReply | null> {
+    const data = await getStore().get(key);
+    if (!data) return null;
+    try {
+        return (JSON.parse(data) as DedupeRecord).deferred ?? null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Count a delivery of a message; returns how many there have been (the first is 1)
+ */
+export async function countDelivery(key: string): Promise<number> {
+    const store = getStore();
+    const deliveries = await store.hincrby(`${key}:deliveries`, 'count', 1);
+    await store.expire(`${key}:deliveries`, PENDING_TTL);
+    return deliveries;
+}
+
+/**
+ * Wait for the first delivery of a message to produce its passive reply.
+ * Returns null if it is not available within the timeout.
+ */
+export async function waitForReply(key: string, timeoutMs = 4000): Promise<string | null> {
+    const store = getStore();
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+        const data = await store.get(key);
+        if (data) {
+            try {
+                const record = JSON.parse(data) as DedupeRecord;
+                if (record.reply !== null) {
+                    return record.reply;
+                }
+            } catch {
+                return null;
+            }
+        }
+        if (Date.now() >= deadline) {
+            return null;
+        }
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+    }
+}
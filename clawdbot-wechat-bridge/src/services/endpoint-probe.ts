@@ -0,0 +1,182 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import axios, { AxiosRequestConfig } from 'axios';
+import { getConfig } from '../config.js';
+import { isPrivateAddress } from '../utils/ip-range.js';
+import { hashToken, UserBinding } from './bindings.js';
+import { requestPlugin } from './plugin-socket.js';
+
+/**
+ * Checks that a plugin endpoint is worth binding to.
+ *
+ * The bridge refuses endpoints on loopback, link-local and private addresses
+ * (unless ALLOW_PRIVATE_ENDPOINTS is set), both when the URL names an IP and
+ * when a hostname resolves to one. A probe then sends `{ type: 'ping' }`,
+ * which the plugin answers with the nonce, so a typo, a wrong token and a
+ * server that is not the plugin can each be told apart.
+ */
+
+export type ProbeFailure = 'invalid_url' | 'private_address' | 'unreachable' | 'unauthorized' | 'not_plugin';
+
+export type ProbeResult =
+    | { ok: true; latencyMs: number; version?: string }
+    | { ok: false; reason: ProbeFailure; detail: string };
+
+const PROBE_TIMEOUT_MS = 5000;
+
+/**
+ * A plugin endpoint resolved to an address the bridge does not call
+ */
+export class PrivateAddressError extends Error {
+    constructor(host: string, address: string) {
+        super(host === address ? address : `${host} (${address})`);
+        this.name = 'PrivateAddressError';
+    }
+}
+
+/**
+ * DNS lookup that refuses private addresses, so a hostname can't be
+ * pointed at an internal service after the URL was checked
+ */
+async function publicLookup(hostname: string): Promise<{ address: string; family: 4 | 6 }> {
+    const addresses = await dns.promises.lookup(hostname, { all: true });
+    if (!getConfig().bindings.allowPrivateEndpoints) {
+        const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+        if (blocked) throw new PrivateAddressError(hostname, blocked.address);
+    }
+    if (addresses.length === 0) {
+        throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' });
+    }
+    return { address: addresses[0].address, family: addresses[0].family === 6 ? 6 : 4 };
+}
+
+/**
+ * Request options for every call to a plugin endpoint
+ */
+export function pluginRequestConfig(): Pick<AxiosRequestConfig, 'lookup' | 'maxRedirects'> {
+    return { lookup: publicLookup, maxRedirects: 0 };
+}
+
+/**
+ * Check the URL itself: http(s), and not a private IP literal.
+ * Returns null if it is acceptable.
+ */
+export function checkEndpointUrl(endpoint: string): (ProbeResult & { ok: false }) | null {
+    let url: URL;
+    try {
+        url = new URL(endpoint);
+    } catch {
+        return { ok: false, reason: 'invalid_url', detail: endpoint };
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return { ok: false, reason: 'invalid_url', detail: `unsupported protocol ${url.protocol}` };
+    }
+
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host) && isPrivateAddress(host) && !getConfig().bindings.allowPrivateEndpoints) {
+        return { ok: false, reason: 'private_address', detail: host };
+    }
+    return null;
+}
+
+function findPrivateAddressError(error: unknown): PrivateAddressError | undefined {
+    for (let current = error; current; current = (current as { cause?: unknown }).cause) {
+        if (current instanceof PrivateAddressError) return current;
+    }
+    return undefined;
+}
+
+/**
+ * Classify a failed request to a plugin endpoint
+ */
+export function classifyRequestError(error: unknown): ProbeResult & { ok: false } {
+    const blocked = findPrivateAddressError(error);
+    if (blocked) {
+        return { ok: false, reason: 'private_address', detail: blocked.message };
+    }
+    if (axios.isAxiosError(error)) {
+        return { ok: false, reason: 'unreachable', detail: error.code || error.message };
+    }
+    return { ok: false, reason: 'unreachable', detail: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Ping a plugin's webhook with its token
+ */
+export async function probeEndpoint(endpoint: string, token: string): Promise<ProbeResult> {
+    const invalid = checkEndpointUrl(endpoint);
+    if (invalid) return invalid;
+
+    const nonce = crypto.randomBytes(8).toString('hex');
+    const started = Date.now();
+    try {
+        const response = await axios.post(endpoint, { type: 'ping', nonce }, {
+            ...pluginRequestConfig(),
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${token}`,
+            },
+            timeout: PROBE_TIMEOUT_MS,
+            validateStatus: () => true,
+        });
+
+        if (response.status === 401 || response.status === 403) {
+            return { ok: false, reason: 'unauthorized', detail: `HTTP ${response.status}` };
+        }
+        return checkPong(response.data, nonce, started, `HTTP ${response.status}`);
+    } catch (error) {
+        return classifyRequestError(error);
+    }
+}
+
+/**
+ * Ping a plugin connected over the socket
+ */
+export async function probeSocket(token: string): Promise<ProbeResult> {
+    const nonce = crypto.randomBytes(8).toString('hex');
+    const started = Date.now();
+    try {
+        const answer = await requestPlugin(hashToken(token), { type: 'ping', nonce }, PROBE_TIMEOUT_MS);
+        return checkPong(answer, nonce, started, 'no pong');
+    } catch (error) {
+        return { ok: false, reason: 'unreachable', detail: error instanceof Error ? error.message : String(error) };
+    }
+}
+
+/**
+ * Ping the plugin a binding points at
+ */
+export async function probeBinding(binding: Pick<UserBinding, 'transport' | 'endpoint' | 'token'>): Promise<ProbeResult> {
+    return binding.transport === 'ws' ? probeSocket(binding.token) : probeEndpoint(binding.endpoint, binding.token);
+}
+
+function checkPong(data: unknown, nonce: string, started: number, otherwise: string): ProbeResult {
+    const answer = (typeof data === 'object' && data !== null ? data : {}) as Record<string, unknown>;
+    if (answer.pong !== nonce) {
+        return { ok: false, reason: 'not_plugin', detail: otherwise };
+    }
+    return {
+        ok: true,
+        latencyMs: Date.now() - started,
+        version: typeof answer.version === 'string' ? answer.version : undefined,
+    };
+}
+
+/**
+ * Explain a failed probe to the user
+ */
+export function describeProbeFailure(result: ProbeResult & { ok: false }): string {
+    switch (result.reason) {
+        case 'invalid_url':
+            return `地址无效（${result.detail}）`;
+        case 'private_address':
+            return `${result.detail} 是本机或内网地址，Bridge 不会连接`;
+        case 'unreachable':
+            return `无法连接到你的 Clawdbot（${result.detail}）`;
+        case 'unauthorized':
+            return `Clawdbot 拒绝了 Token（${result.detail}）`;
+        case 'not_plugin':
+            return `该地址不是 Clawdbot 微信插件（${result.detail}）`;
+    }
+}
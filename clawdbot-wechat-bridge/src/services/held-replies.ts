@@ -0,0 +1,119 @@
+import { getConfig, WeChatAccount } from '../config.js';
+import { getStore, accountKey } from '../storage/store.js';
+import { enqueueMessages, OutboundJob } from './outbound-queue.js';
+import { sendTemplateMessage, CustomerServiceMessage } from './wechat-message.js';
+
+/**
+ * Replies that finished after the user's 48h customer-service window closed.
+ * They are kept per OpenID until the user interacts again, which reopens the window.
+ */
+
+const HELD_PREFIX = 'wechat:held:';
+const NOTICE_PREFIX = 'wechat:held:notice:';       // Set once the user has been told about held replies
+const TEMPLATE_PREFIX = 'wechat:held:template:';   // Set once the template fallback has been sent
+const HELD_TTL = 7 * 24 * 60 * 60;
+const PREVIEW_LENGTH = 40;
+
+/**
+ * Keep the undelivered part of a job until the window reopens
+ */
+export async function holdJob(account: WeChatAccount, job: OutboundJob): Promise<void> {
+    const store = getStore();
+    const remaining = job.messages.slice(job.sent);
+    if (remaining.length === 0) return;
+
+    const key = accountKey(account, HELD_PREFIX) + job.openId;
+    await store.rpush(key, JSON.stringify(remaining));
+    await store.expire(key, HELD_TTL);
+    console.warn(`Customer-service window closed for ${job.openId}, holding ${remaining.length} message(s)`);
+
+    await sendTemplateFallback(account, job.openId, remaining);
+}
+
+/**
+ * Number of held replies for a user
+ */
+export async function countHeldReplies(account: WeChatAccount, openId: string): Promise<number> {
+    return getStore().llen(accountKey(account, HELD_PREFIX) + openId);
+}
+
+/**
+ * Queue all held replies for delivery (the window must be open again)
+ */
+export async function releaseHeldReplies(account: WeChatAccount, openId: string): Promise<number> {
+    const store = getStore();
+    const key = accountKey(account, HELD_PREFIX) + openId;
+    let released = 0;
+
+    while (true) {
+        const data = await store.lpop(key);
+        if (!data) break;
+        await enqueueMessages(account, openId, JSON.parse(data) as CustomerServiceMessage[]);
+        released++;
+    }
+
+    await store.del(accountKey(account, NOTICE_PREFIX) + openId, accountKey(account, TEMPLATE_PREFIX) + openId);
+    if (released > 0) {
+        console.log(`Released ${released} held reply batch(es) for ${openId}`);
+    }
+    return released;
+}
+
+/**
+ * Called on every interaction from the user, which reopens the window.
+ * In auto mode held replies go out right away; in notify mode the user is
+ * told once that replies are waiting.
+ */
+export async function onUserInteraction(account: WeChatAccount, openId: string): Promise<void> {
+    const count = await countHeldReplies(account, openId);
+    if (count === 0) return;
+
+    if (getConfig().heldReplies.mode === 'auto') {
+        await releaseHeldReplies(account, openId);
+        return;
+    }
+
+    const first = await getStore().set(accountKey(account, NOTICE_PREFIX) + openId, '1', { ttl: HELD_TTL, nx: true });
+    if (first) {
+        await enqueueMessages(account, openId, [{
+            touser: openId,
+            msgtype: 'text',
+            text: { content: `📬 你有 ${count} 条未读回复，发送「查看回复」即可获取。` },
+        }]);
+    }
+}
+
+/**
+ * Tell the user via template message that a reply is waiting (if configured)
+ */
+async function sendTemplateFallback(
+    account: WeChatAccount,
+    openId: string,
+    messages: CustomerServiceMessage[]
+): Promise<void> {
+    // Template IDs belong to one official account; the env template is the default account's
+    const template = account.heldTemplate ?? (account.default ? getConfig().heldReplies.template : undefined);
+    if (!template) return;
+
+    // One template message per closed window is enough
+    const first = await getStore().set(accountKey(account, TEMPLATE_PREFIX) + openId, '1', { ttl: HELD_TTL, nx: true });
+    if (!first) return;
+
+    const firstText = messages.find(m => m.msgtype === 'text');
+    const preview = firstText && firstText.msgtype === 'text' ? firstText.text.content : '';
+    const values: Record<string, string> = {
+        count: String(await countHeldReplies(account, openId)),
+        preview: preview.length > PREVIEW_LENGTH ? preview.slice(0, PREVIEW_LENGTH) + '…' : preview,
+        time: new Date().toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' }),
+    };
+
+    const data: Record<string, string> = {};
+    for (const [field, pattern] of Object.entries(template.fields)) {
+        data[field] = pattern.replace(/\{\{(\w+)\}\}/g, (_, name: string) => values[name] ?? '');
+    }
+
+    const result = await sendTemplateMessage(account, openId, template.id, data, template.url);
+    if (!result.ok) {
+        console.error(`Template fallback failed for ${openId}: ${result.errmsg}`);
+    }
+}
@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { getConfig, WeChatAccount } from '../config.js';
+import { getStore } from '../storage/store.js';
+import { getAccessToken } from './wechat-token.js';
+import { getAmrDuration, getMp4Duration } from '../utils/media-info.js';
+
+/**
+ * Inbound media from WeChat, kept for the plugin to fetch.
+ *
+ * The files live in the media directory; the store only holds their metadata,
+ * which expires after the media TTL. Files whose metadata has expired are
+ * deleted when requested and by an hourly sweep.
+ */
+
+const MEDIA_GET_API = 'https://api.weixin.qq.com/cgi-bin/media/get';
+const MEDIA_PREFIX = 'wechat:media:';
+const MAX_MEDIA_SIZE = 10 * 1024 * 1024; // WeChat's own limit for images and video
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const MEDIA_ID_REGEX = /^[0-9a-f]{32}$/;
+
+export type MediaKind = 'image' | 'voice' | 'video';
+
+/**
+ * Media attached to a forwarded message
+ */
+export interface MediaAttachment {
+    type: MediaKind;
+    url: string;        // Bridge URL serving the file until it expires
+    mime_type: string;
+    size: number;       // Bytes
+    duration?: number;  // Seconds (voice and video)
+}
+
+interface StoredMedia {
+    mimeType: string;
+    size: number;
+}
+
+const DEFAULT_MIME_TYPES: Record<MediaKind, string> = {
+    image: 'image/jpeg',
+    voice: 'audio/amr',
+    video: 'video/mp4',
+};
+
+/**
+ * Download an inbound media file from WeChat's temporary-media API
+ */
+async function downloadMedia(account: WeChatAccount, mediaId: string): Promise<{ data: Buffer; mimeType?: string }> {
+    const accessToken = await getAccessToken(account);
+    const response = await axios.get<ArrayBuffer>(MEDIA_GET_API, {
+        params: { access_token: accessToken, media_id: mediaId },
+        responseType: 'arraybuffer',
+        maxContentLength: MAX_MEDIA_SIZE,
+    });
+
+    const contentType = String(response.headers['content-type'] || '');
+    const data = Buffer.from(response.data);
+
+    // Errors, and video messages, come back as JSON instead of the file itself
+    if (contentType.includes('json') || contentType.startsWith('text/plain')) {
+        const body = JSON.parse(data.toString('utf-8'));
+        if (body.video_url) {
+            const video = await axios.get<ArrayBuffer>(body.video_url, {
+                responseType: 'arraybuffer',
+                maxContentLength: MAX_MEDIA_SIZE,
+            });
+            return { data: Buffer.from(video.data), mimeType: String(video.headers['content-type'] || '') };
+        }
+        throw new Error(`WeChat media API error: ${body.errcode} - ${body.errmsg}`);
+    }
+
+    return { data, mimeType: contentType };
+}
+
+/**
+ * Fetch an inbound media file and keep it available to the plugin for a while
+ */
+export async function fetchInboundMedia(
+    account: WeChatAccount,
+    mediaId: string,
+    kind: MediaKind
+): Promise<MediaAttachment> {
+    const config = getConfig();
+    const { data, mimeType: rawMimeType } = await downloadMedia(account, mediaId);
+
+    const mimeType = rawMimeType && rawMimeType !== 'application/octet-stream'
+        ? rawMimeType.split(';')[0].trim()
+        : DEFAULT_MIME_TYPES[kind];
+
+    const id = crypto.randomBytes(16).toString('hex');
+    await fs.promises.mkdir(config.media.dir, { recursive: true });
+    await fs.promises.writeFile(mediaPath(id), data);
+    const stored: StoredMedia = { mimeType, size: data.length };
+    await getStore().set(MEDIA_PREFIX + id, JSON.stringify(stored), { ttl: config.media.ttl });
+
+    let duration: number | undefined;
+    if (kind === 'voice') duration = getAmrDuration(data);
+    if (kind === 'video') duration = getMp4Duration(data);
+
+    return {
+        type: kind,
+        url: `${config.bridge.baseUrl}/media/${id}`,
+        mime_type: mimeType,
+        size: data.length,
+        duration,
+    };
+}
+
+function mediaPath(id: string): string {
+    return path.join(getConfig().media.dir, id);
+}
+
+/**
+ * Look up a stored media file by its ID (a hex ID, see the media route)
+ */
+export async function getStoredMedia(id: string): Promise<{ mimeType: string; size: number; file: string } | null> {
+    const raw = await getStore().get(MEDIA_PREFIX + id);
+    if (!raw) {
+        await fs.promises.rm(mediaPath(id), { force: true });
+        return null;
+    }
+
+    let stored: StoredMedia;
+    try {
+        stored = JSON.parse(raw) as StoredMedia;
+    } catch {
+        return null;
+    }
+    // Entries from before media moved to disk carry the data itself
+    if (typeof stored.size !== 'number' || !fs.existsSync(mediaPath(id))) return null;
+    return { mimeType: stored.mimeType, size: stored.size, file: mediaPath(id) };
+}
+
+/**
+ * Periodically delete media files whose metadata has expired
+ */
+export function startMediaSweeper(): NodeJS.Timeout {
+    return setInterval(async () => {
+        try {
+            const files = await fs.promises.readdir(getConfig().media.dir).catch(() => [] as string[]);
+            for (const id of files) {
+                if (MEDIA_ID_REGEX.test(id) && !(await getStore().exists(MEDIA_PREFIX + id))) {
+                    await fs.promises.rm(mediaPath(id), { force: true });
+                }
+            }
+        } catch (error) {
+            console.error('Media sweeper failed:', error);
+        }
+    }, SWEEP_INTERVAL_MS);
+}
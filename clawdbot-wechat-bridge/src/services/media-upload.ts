@@ -0,0 +1,193 @@
+import path from 'path';
+import axios from 'axios';
+import type { WeChatAccount } from '../config.js';
+import { getAccessToken, forceRefreshToken } from './wechat-token.js';
+import { checkEndpointUrl, classifyRequestError, pluginRequestConfig, ProbeResult } from './endpoint-probe.js';
+import { getAmrDuration } from '../utils/media-info.js';
+import type { CustomerServiceMessage } from './wechat-message.js';
+import type { MediaKind } from './media-store.js';
+
+const MEDIA_UPLOAD_API = 'https://api.weixin.qq.com/cgi-bin/media/upload';
+const DOWNLOAD_TIMEOUT = 30000;
+
+/**
+ * Media the plugin wants to send to the user.
+ * Either `data` (base64) or `url` must be set.
+ */
+export interface OutboundMediaItem {
+    type?: MediaKind;
+    mime_type?: string;
+    filename?: string;
+    data?: string;
+    url?: string;
+}
+
+/**
+ * Error with a message that can be shown to the plugin and the user
+ */
+export class MediaRejectedError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'MediaRejectedError';
+    }
+}
+
+// Temporary-media limits of the WeChat API
+const LIMITS: Record<MediaKind, { maxSize: number; extensions: Record<string, string>; maxDuration?: number }> = {
+    image: {
+        maxSize: 10 * 1024 * 1024,
+        extensions: { 'image/jpeg': '.jpg', 'image/png': '.png', 'image/gif': '.gif', 'image/bmp': '.bmp' },
+    },
+    voice: {
+        maxSize: 2 * 1024 * 1024,
+        maxDuration: 60,
+        extensions: { 'audio/amr': '.amr', 'audio/mpeg': '.mp3', 'audio/mp3': '.mp3' },
+    },
+    video: {
+        maxSize: 10 * 1024 * 1024,
+        extensions: { 'video/mp4': '.mp4' },
+    },
+};
+
+// Downloads of unknown kind may be as large as the largest kind allows
+const MAX_DOWNLOAD_SIZE = Math.max(...Object.values(LIMITS).map(limit => limit.maxSize));
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.bmp': 'image/bmp',
+    '.amr': 'audio/amr',
+    '.mp3': 'audio/mpeg',
+    '.mp4': 'video/mp4',
+};
+
+function kindOf(mimeType: string): MediaKind | undefined {
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('audio/')) return 'voice';
+    if (mimeType.startsWith('video/')) return 'video';
+    return undefined;
+}
+
+function describeUrlFailure(failure: ProbeResult & { ok: false }): string {
+    return failure.reason === 'private_address' ? `${failure.detail} is a private address` : failure.detail;
+}
+
+/**
+ * Resolve the bytes and type of an outbound item, checking WeChat's limits
+ */
+async function loadMedia(item: OutboundMediaItem): Promise<{ kind: MediaKind; data: Buffer; mimeType: string; filename: string }> {
+    let data: Buffer;
+    let mimeType = item.mime_type;
+    let filename = item.filename;
+
+    if (item.data) {
+        data = Buffer.from(item.data, 'base64');
+    } else if (item.url) {
+        // The URL comes from the plugin: same address rules as for plugin endpoints
+        const invalid = checkEndpointUrl(item.url);
+        if (invalid) {
+            throw new MediaRejectedError(`Refusing to download ${item.url}: ${describeUrlFailure(invalid)}`);
+        }
+
+        const response = await axios.get<ArrayBuffer>(item.url, {
+            ...pluginRequestConfig(),
+            responseType: 'arraybuffer',
+            timeout: DOWNLOAD_TIMEOUT,
+            maxContentLength: item.type ? LIMITS[item.type].maxSize : MAX_DOWNLOAD_SIZE,
+        }).catch((error) => {
+            throw new MediaRejectedError(`Failed to download ${item.url}: ${describeUrlFailure(classifyRequestError(error))}`);
+        });
+        data = Buffer.from(response.data);
+        mimeType = mimeType || String(response.headers['content-type'] || '').split(';')[0].trim();
+        filename = filename || path.basename(new URL(item.url).pathname);
+    } else {
+        throw new MediaRejectedError('Media item has neither data nor url');
+    }
+
+    if (!mimeType || mimeType === 'application/octet-stream') {
+        mimeType = EXTENSION_MIME_TYPES[path.extname(filename || '').toLowerCase()];
+    }
+    if (!mimeType) {
+        throw new MediaRejectedError(`Unknown media type${filename ? ` for ${filename}` : ''}`);
+    }
+
+    const kind = item.type || kindOf(mimeType);
+    if (!kind) {
+        throw new MediaRejectedError(`Unsupported media type ${mimeType} (WeChat accepts images, voice and video)`);
+    }
+
+    const limits = LIMITS[kind];
+    const extension = limits.extensions[mimeType];
+    if (!extension) {
+        const accepted = [...new Set(Object.values(limits.extensions))].join(', ');
+        throw new MediaRejectedError(`Unsupported ${kind} format ${mimeType} (accepted: ${accepted})`);
+    }
+    if (data.length > limits.maxSize) {
+        throw new MediaRejectedError(`${kind} is ${(data.length / 1024 / 1024).toFixed(1)}MB, limit is ${limits.maxSize / 1024 / 1024}MB`);
+    }
+    if (limits.maxDuration && mimeType === 'audio/amr') {
+        const duration = getAmrDuration(data);
+        if (duration !== undefined && duration > limits.maxDuration) {
+            throw new MediaRejectedError(`Voice is ${Math.round(duration)}s long, limit is ${limits.maxDuration}s`);
+        }
+    }
+
+    const baseName = filename ? path.basename(filename, path.extname(filename)) : kind;
+    return { kind, data, mimeType, filename: baseName + extension };
+}
+
+/**
+ * Upload a file through the temporary-media API and return its media_id
+ */
+async function uploadTemporaryMedia(
+    account: WeChatAccount,
+    kind: MediaKind,
+    data: Buffer,
+    mimeType: string,
+    filename: string,
+    retryOnTokenError = true
+): Promise<string> {
+    const accessToken = await getAccessToken(account);
+
+    const form = new FormData();
+    form.append('media', new Blob([data], { type: mimeType }), filename);
+
+    const response = await axios.post(MEDIA_UPLOAD_API, form, {
+        params: { access_token: accessToken, type: kind },
+        maxBodyLength: Infinity,
+    });
+
+    if (response.data.media_id) {
+        return response.data.media_id;
+    }
+
+    if (response.data.errcode === 40001 && retryOnTokenError) {
+        await forceRefreshToken(account);
+        return uploadTemporaryMedia(account, kind, data, mimeType, filename, false);
+    }
+
+    throw new Error(`WeChat media upload error: ${response.data.errcode} - ${response.data.errmsg}`);
+}
+
+/**
+ * Upload an outbound media item and build the customer service message for it
+ */
+export async function buildMediaMessage(
+    account: WeChatAccount,
+    openId: string,
+    item: OutboundMediaItem
+): Promise<CustomerServiceMessage> {
+    const { kind, data, mimeType, filename } = await loadMedia(item);
+    const mediaId = await uploadTemporaryMedia(account, kind, data, mimeType, filename);
+
+    switch (kind) {
+        case 'image':
+            return { touser: openId, msgtype: 'image', image: { media_id: mediaId } };
+        case 'voice':
+            return { touser: openId, msgtype: 'voice', voice: { media_id: mediaId } };
+        case 'video':
+            return { touser: openId, msgtype: 'video', video: { media_id: mediaId, title: item.filename } };
+    }
+}
@@ -0,0 +1,253 @@
+import crypto from 'crypto';
+import { getConfig, WeChatAccount } from '../config.js';
+import { getStore, accountKey } from '../storage/store.js';
+import { sendCustomerServiceMessage, isWindowClosed, CustomerServiceMessage } from './wechat-message.js';
+import { holdJob } from './held-replies.js';
+import { holdPassiveReplies } from './passive-reply.js';
+
+/**
+ * Durable, ordered outbound queue for customer-service messages.
+ *
+ * Each OpenID has its own list of jobs; a job is a batch of messages that
+ * must go out in order (e.g. the chunks of one long reply). One worker at a
+ * time drains a user's list, retrying transient failures with backoff and
+ * moving permanently failed jobs to the dead-letter list. Jobs that fail
+ * because the 48h customer-service window closed are held instead.
+ *
+ * While a retry is pending, new jobs wait for it rather than starting a
+ * worker of their own. Dead letters can be listed and put back in their
+ * user's queue through the admin routes.
+ */
+
+export interface OutboundJob {
+    id: string;
+    accountKey?: string; // Official account to send from (unset: default account)
+    openId: string;
+    messages: CustomerServiceMessage[];
+    sent: number;       // Number of messages already delivered
+    attempts: number;   // Failed attempts on the current message
+    createdAt: number;
+    lastError?: string;
+}
+
+export interface DeadLetter extends OutboundJob {
+    failedAt: number;
+}
+
+const QUEUE_PREFIX = 'wechat:outbox:';
+const LOCK_PREFIX = 'wechat:outbox:lock:';
+const RETRY_PREFIX = 'wechat:outbox:retry:';    // When the pending retry of a user's queue is due
+const ACTIVE_KEY = 'wechat:outbox:active';      // OpenIDs with pending jobs (one set per account)
+const DEAD_LETTER_KEY = 'wechat:outbox:dead';
+const DEAD_LETTER_MAX = 1000;
+const LOCK_TTL = 60;
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+/**
+ * Append a batch of messages to the user's queue and start delivering.
+ * In sync reply mode, messages that answer a waiting message (`replyTo`)
+ * become its passive reply instead.
+ */
+export async function enqueueMessages(
+    account: WeChatAccount,
+    openId: string,
+    messages: CustomerServiceMessage[],
+    replyTo?: string
+): Promise<string> {
+    const store = getStore();
+    const job: OutboundJob = {
+        id: crypto.randomUUID(),
+        accountKey: account.key,
+        openId,
+        messages,
+        sent: 0,
+        attempts: 0,
+        createdAt: Date.now(),
+    };
+
+    if (messages.length === 0) {
+        return job.id;
+    }
+    if (account.replyMode === 'sync' && replyTo && await holdPassiveReplies(account, replyTo, messages)) {
+        return job.id;
+    }
+
+    await store.rpush(accountKey(account, QUEUE_PREFIX) + openId, JSON.stringify(job));
+    await store.sadd(accountKey(account, ACTIVE_KEY), openId);
+    // A pending retry picks the job up when it is due
+    if (!(await retryDueAt(account, openId))) drainQueue(account, openId);
+
+    return job.id;
+}
+
+/**
+ * When the pending retry of a user's queue is due, or null if none is pending
+ */
+async function retryDueAt(account: WeChatAccount, openId: string): Promise<number | null> {
+    const dueAt = Number(await getStore().get(accountKey(account, RETRY_PREFIX) + openId));
+    return dueAt > Date.now() ? dueAt : null;
+}
+
+/**
+ * Start draining a user's queue in the background
+ */
+function drainQueue(account: WeChatAccount, openId: string): void {
+    doDrain(account, openId).catch((error) => {
+        console.error(`Outbound queue worker failed for ${openId}:`, error);
+    });
+}
+
+async function doDrain(account: WeChatAccount, openId: string): Promise<void> {
+    const store = getStore();
+    const queueKey = accountKey(account, QUEUE_PREFIX) + openId;
+    const lockKey = accountKey(account, LOCK_PREFIX) + openId;
+    const retryKey = accountKey(account, RETRY_PREFIX) + openId;
+    const activeKey = accountKey(account, ACTIVE_KEY);
+
+    // Only one worker per user, so messages stay in order
+    const locked = await store.set(lockKey, '1', { ttl: LOCK_TTL, nx: true });
+    if (!locked) return;
+    await store.del(retryKey);
+
+    let retryIn: number | null = null;
+
+    try {
+        while (true) {
+            const data = await store.lindex(queueKey, 0);
+            if (!data) {
+                await store.srem(activeKey, openId);
+                break;
+            }
+
+            const job = JSON.parse(data) as OutboundJob;
+
+            while (job.sent < job.messages.length) {
+                await store.expire(lockKey, LOCK_TTL);
+                const result = await sendCustomerServiceMessage(account, job.messages[job.sent]);
+
+                if (result.ok) {
+                    job.sent++;
+                    job.attempts = 0;
+                    await store.lset(queueKey, 0, JSON.stringify(job));
+                    continue;
+                }
+
+                if (isWindowClosed(result)) {
+                    await holdJob(account, job);
+                    break;
+                }
+
+                job.attempts++;
+                job.lastError = result.errcode !== undefined
+                    ? `${result.errcode}: ${result.errmsg}`
+                    : result.errmsg;
+
+                if (result.transient && job.attempts < MAX_ATTEMPTS) {
+                    await store.lset(queueKey, 0, JSON.stringify(job));
+                    retryIn = Math.min(BASE_BACKOFF_MS * 2 ** (job.attempts - 1), MAX_BACKOFF_MS);
+                    console.warn(`Outbound job ${job.id} for ${openId} failed (${job.lastError}), retrying in ${retryIn}ms`);
+                    return;
+                }
+
+                await deadLetter(account, job);
+                break;
+            }
+
+            await store.lpop(queueKey);
+        }
+    } finally {
+        await store.del(lockKey);
+        if (retryIn !== null) {
+            // Expires on its own if this process dies before the retry
+            await store.set(retryKey, String(Date.now() + retryIn), { ttl: Math.ceil(retryIn / 1000) + 1 });
+            setTimeout(() => drainQueue(account, openId), retryIn);
+        } else if ((await store.llen(queueKey)) > 0) {
+            // A job was queued while we were finishing up
+            await store.sadd(activeKey, openId);
+            drainQueue(account, openId);
+        }
+    }
+}
+
+/**
+ * Move a job that cannot be delivered to the dead-letter list
+ */
+async function deadLetter(account: WeChatAccount, job: OutboundJob): Promise<void> {
+    const store = getStore();
+    const deadKey = accountKey(account, DEAD_LETTER_KEY);
+    console.error(`Outbound job ${job.id} for ${job.openId} failed permanently: ${job.lastError}`);
+    await store.lpush(deadKey, JSON.stringify({ ...job, failedAt: Date.now() }));
+    await store.ltrim(deadKey, 0, DEAD_LETTER_MAX - 1);
+}
+
+/**
+ * Resume delivery of queues left over from a previous run
+ */
+export async function resumeOutboundQueues(): Promise<void> {
+    const store = getStore();
+    for (const account of getConfig().accounts) {
+        const openIds = await store.smembers(accountKey(account, ACTIVE_KEY));
+        if (openIds.length > 0) {
+            console.log(`Resuming ${openIds.length} outbound queue(s) for ${account.key}`);
+        }
+        for (const openId of openIds) {
+            const dueAt = await retryDueAt(account, openId);
+            if (dueAt) {
+                setTimeout(() => drainQueue(account, openId), dueAt - Date.now());
+            } else {
+                drainQueue(account, openId);
+            }
+        }
+    }
+}
+
+/**
+ * The most recent dead letters of an account, newest first
+ */
+export async function listDeadLetters(account: WeChatAccount, limit = 50): Promise<DeadLetter[]> {
+    const store = getStore();
+    const deadKey = accountKey(account, DEAD_LETTER_KEY);
+    const letters: DeadLetter[] = [];
+    for (let i = 0; i < Math.min(limit, DEAD_LETTER_MAX); i++) {
+        const data = await store.lindex(deadKey, i);
+        if (!data) break;
+        letters.push(JSON.parse(data) as DeadLetter);
+    }
+    return letters;
+}
+
+/**
+ * Put dead letters back at the end of their user's queue, all of them or
+ * those with the given job IDs. Messages already delivered are not sent again.
+ * Returns the number of jobs requeued.
+ */
+export async function requeueDeadLetters(account: WeChatAccount, jobIds?: string[]): Promise<number> {
+    const store = getStore();
+    const deadKey = accountKey(account, DEAD_LETTER_KEY);
+    const kept: string[] = [];
+    const requeued: DeadLetter[] = [];
+
+    let data: string | null;
+    while ((data = await store.lpop(deadKey))) {
+        const letter = JSON.parse(data) as DeadLetter;
+        if (jobIds && !jobIds.includes(letter.id)) {
+            kept.push(data);
+        } else {
+            requeued.push(letter);
+        }
+    }
+    if (kept.length > 0) await store.rpush(deadKey, ...kept);
+
+    // Oldest first, so each user's jobs keep their original order
+    for (const { failedAt: _failedAt, lastError: _lastError, ...job } of requeued.reverse()) {
+        await store.rpush(accountKey(account, QUEUE_PREFIX) + job.openId, JSON.stringify({ ...job, attempts: 0 }));
+        await store.sadd(accountKey(account, ACTIVE_KEY), job.openId);
+    }
+    for (const openId of new Set(requeued.map((letter) => letter.openId))) {
+        if (!(await retryDueAt(account, openId))) drainQueue(account, openId);
+    }
+
+    return requeued.length;
+}
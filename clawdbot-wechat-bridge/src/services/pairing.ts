@@ -0,0 +1,299 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { getAccount, getConfig, getDefaultAccount, WeChatAccount } from '../config.js';
+import { getStore } from '../storage/store.js';
+import {
+    setBinding,
+    hashToken,
+    markSocketTokenPending,
+    sealSecret,
+    openSecret,
+    BindingTransport,
+    UserBinding,
+} from './bindings.js';
+import { requestPlugin } from './plugin-socket.js';
+import { sendTextMessage } from './wechat-message.js';
+import { createBindQrCode, QrCode } from './qrcode.js';
+import {
+    checkEndpointUrl,
+    probeBinding,
+    pluginRequestConfig,
+    classifyRequestError,
+    describeProbeFailure,
+} from './endpoint-probe.js';
+
+/**
+ * One-time bind codes.
+ *
+ * The plugin generates a short code and registers it here, together with how
+ * to reach it and its token. The user then sends `bind <code>` in WeChat, so
+ * neither the URL nor the token ever appears in the chat. Before the binding
+ * is saved, the bridge calls the plugin back with the code and a random
+ * challenge; the plugin must answer with HMAC-SHA256(code, challenge). That
+ * proves the plugin is reachable, accepts the token and issued the code.
+ * A code can also be wrapped in a parametric QR code; scanning it has the
+ * same effect as sending `bind <code>`.
+ *
+ * Registering a code makes the bridge accept the plugin's socket token and
+ * may create a QR code on the account's API quota, so only plugins holding
+ * the pairing secret may do it, and each client IP only so often (QR codes
+ * have a lower allowance of their own).
+ */
+
+/**
+ * Body of POST /pair, sent by the plugin
+ */
+export interface PairingRegistration {
+    code: string;
+    transport?: BindingTransport;
+    endpoint?: string;       // Webhook URL (http transport only)
+    token: string;
+    account_name?: string;
+    plugin_version?: string;
+    expires_in?: number;     // Seconds the code stays valid
+    qr?: boolean;            // Also create a QR code that binds whoever scans it
+    app?: string;            // Official account the QR code belongs to (default account if absent)
+}
+
+/**
+ * A registered code waiting for `bind <code>`
+ */
+export interface PendingPairing {
+    code: string;
+    transport: BindingTransport;
+    endpoint: string;
+    token: string;
+    accountName?: string;
+    pluginVersion?: string;
+}
+
+export type RegistrationResult =
+    | { ok: true; expiresIn: number; qr?: QrCode; qrError?: string }
+    | { ok: false; status: 400 | 409; error: string };
+
+const PAIR_PREFIX = 'wechat:pair:';
+const RATE_PREFIX = 'wechat:pair:rate:';
+const RATE_WINDOW = 600;
+const DEFAULT_TTL = 300;
+const MAX_TTL = 600;
+const CONFIRM_TIMEOUT_MS = 8000;
+
+export const BIND_CODE_REGEX = /^[A-Z0-9]{6,12}$/;
+
+/**
+ * Count a registration (or QR code) attempt from a client IP. Returns false
+ * once the IP has used up its attempts for the current window.
+ */
+export async function allowPairingAttempt(ip: string, kind: 'code' | 'qr' = 'code'): Promise<boolean> {
+    const store = getStore();
+    const { rateLimit, qrRateLimit } = getConfig().pairing;
+    const key = `${RATE_PREFIX}${kind}:${ip}`;
+    const attempts = await store.hincrby(key, 'count', 1);
+    if (attempts === 1) await store.expire(key, RATE_WINDOW);
+    return attempts <= (kind === 'qr' ? qrRateLimit : rateLimit);
+}
+
+/**
+ * Store a code registered by the plugin (codes are shared by all accounts)
+ */
+export async function registerPairing(registration: PairingRegistration): Promise<RegistrationResult> {
+    const code = String(registration.code || '').toUpperCase();
+    const transport = registration.transport || 'http';
+    const endpoint = registration.endpoint || '';
+
+    if (!BIND_CODE_REGEX.test(code)) {
+        return { ok: false, status: 400, error: 'Invalid code' };
+    }
+    if (!registration.token) {
+        return { ok: false, status: 400, error: 'Missing token' };
+    }
+    if (transport !== 'http' && transport !== 'ws') {
+        return { ok: false, status: 400, error: `Unknown transport ${transport}` };
+    }
+    if (transport === 'http') {
+        const invalid = checkEndpointUrl(endpoint);
+        if (invalid) {
+            return { ok: false, status: 400, error: `Endpoint refused (${invalid.reason}: ${invalid.detail})` };
+        }
+    }
+
+    const qrAccount = registration.app ? getAccount(registration.app) : getDefaultAccount();
+    if (registration.qr && !qrAccount) {
+        return { ok: false, status: 400, error: `Unknown account ${registration.app}` };
+    }
+
+    const ttl = Math.min(Math.max(Math.floor(registration.expires_in || DEFAULT_TTL), 1), MAX_TTL);
+    const pending: PendingPairing = {
+        code,
+        transport,
+        endpoint: transport === 'http' ? endpoint : '',
+        token: registration.token,
+        accountName: registration.account_name,
+        pluginVersion: registration.plugin_version,
+    };
+
+    const record = { ...pending, token: sealSecret(pending.token, 'pair.token') };
+    const stored = await getStore().set(PAIR_PREFIX + code, JSON.stringify(record), { ttl, nx: true });
+    if (!stored) {
+        return { ok: false, status: 409, error: 'Code already in use' };
+    }
+    if (transport === 'ws') {
+        await markSocketTokenPending(hashToken(pending.token), ttl);
+    }
+
+    if (registration.qr && qrAccount) {
+        // The code works without the QR code, so a failure here only loses the shortcut
+        try {
+            return { ok: true, expiresIn: ttl, qr: await createBindQrCode(qrAccount, code, ttl) };
+        } catch (error) {
+            console.error(`Failed to create bind QR code for account ${qrAccount.key}:`, error);
+            return { ok: true, expiresIn: ttl, qrError: error instanceof Error ? error.message : String(error) };
+        }
+    }
+    return { ok: true, expiresIn: ttl };
+}
+
+/**
+ * Look up and remove a code, so it can only be used once
+ */
+export async function takePairing(code: string): Promise<PendingPairing | null> {
+    const key = PAIR_PREFIX + code.toUpperCase();
+    const data = await getStore().getdel(key);
+    if (!data) return null;
+
+    try {
+        const pending = JSON.parse(data) as PendingPairing;
+        return { ...pending, token: openSecret(pending.token, 'pair.token') };
+    } catch (error) {
+        console.error(`Cannot read bind code ${code}:`, error instanceof Error ? error.message : error);
+        return null;
+    }
+}
+
+/**
+ * Proof the plugin must return for a challenge
+ */
+function expectedProof(code: string, challenge: string): string {
+    return crypto.createHmac('sha256', code).update(challenge).digest('hex');
+}
+
+function proofMatches(proof: unknown, expected: string): boolean {
+    if (typeof proof !== 'string' || proof.length !== expected.length) return false;
+    return crypto.timingSafeEqual(Buffer.from(proof), Buffer.from(expected));
+}
+
+/**
+ * Ask the plugin to confirm the code. Returns the plugin's answer,
+ * or throws with a message suitable for the user.
+ */
+async function requestConfirmation(
+    pending: PendingPairing,
+    openId: string,
+    challenge: string
+): Promise<Record<string, unknown>> {
+    const request = { type: 'pair_confirm', code: pending.code, challenge, openid: openId };
+
+    // Make sure we are talking to a plugin that takes the token before trusting its answer
+    const probe = await probeBinding(pending);
+    if (!probe.ok) {
+        throw new Error(describeProbeFailure(probe));
+    }
+
+    if (pending.transport === 'ws') {
+        try {
+            return await requestPlugin(hashToken(pending.token), request, CONFIRM_TIMEOUT_MS);
+        } catch (error) {
+            throw new Error(`插件没有通过 WebSocket 连接到 Bridge（${error instanceof Error ? error.message : error}）`);
+        }
+    }
+
+    try {
+        const response = await axios.post(pending.endpoint, request, {
+            ...pluginRequestConfig(),
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${pending.token}`,
+            },
+            timeout: CONFIRM_TIMEOUT_MS,
+            validateStatus: () => true,
+        });
+        if (response.status === 401 || response.status === 403) {
+            throw new Error(`Clawdbot 拒绝了插件提供的 Token（HTTP ${response.status}）`);
+        }
+        if (response.status !== 200 || typeof response.data !== 'object' || response.data === null) {
+            throw new Error(`Clawdbot 没有确认绑定码（HTTP ${response.status}）`);
+        }
+        return response.data as Record<string, unknown>;
+    } catch (error) {
+        if (axios.isAxiosError(error)) {
+            throw new Error(describeProbeFailure(classifyRequestError(error)));
+        }
+        throw error;
+    }
+}
+
+/**
+ * Complete a bind: confirm the code with the plugin, then save the binding
+ */
+export async function confirmPairing(
+    account: WeChatAccount,
+    openId: string,
+    pending: PendingPairing
+): Promise<UserBinding> {
+    const challenge = crypto.randomBytes(16).toString('hex');
+    const answer = await requestConfirmation(pending, openId, challenge);
+
+    if (answer.ok !== true || !proofMatches(answer.proof, expectedProof(pending.code, challenge))) {
+        throw new Error(`插件没有确认这个绑定码${typeof answer.error === 'string' ? `（${answer.error}）` : ''}`);
+    }
+
+    return setBinding(account, openId, pending.endpoint, pending.token, pending.transport, {
+        accountName: typeof answer.account_name === 'string' ? answer.account_name : pending.accountName,
+        pluginVersion: typeof answer.plugin_version === 'string' ? answer.plugin_version : pending.pluginVersion,
+    });
+}
+
+/**
+ * Describe the instance a binding points at and how it is reached, for the user
+ */
+export function describeBinding(binding: UserBinding): { instance: string; via: string } {
+    const plugin = `插件 ${binding.pluginVersion || '未知版本'}`;
+    return {
+        instance: binding.accountName ? `${binding.accountName}（${plugin}）` : plugin,
+        via: binding.transport === 'ws' ? 'WebSocket（插件主动连接 Bridge）' : binding.endpoint,
+    };
+}
+
+/**
+ * Confirm a bind in the background and tell the user how it went
+ * (the exchange can take longer than WeChat waits for a passive reply)
+ */
+export function bindWithPairing(
+    account: WeChatAccount,
+    openId: string,
+    pending: PendingPairing,
+    replyTo?: string
+): void {
+    confirmPairing(account, openId, pending)
+        .then((binding) => {
+            console.log(`Bound ${openId} (account ${account.key}) to ${binding.transport} plugin ${binding.accountName || ''} v${binding.pluginVersion || 'unknown'}`);
+            const { instance, via } = describeBinding(binding);
+            return sendTextMessage(account, openId, `✅ 绑定成功！
+
+实例：${instance}
+连接方式：${via}
+
+现在可以直接发送消息与你的 Clawdbot 对话了。
+
+提示：发送 unbind 可以解除绑定。`, replyTo);
+        })
+        .catch(async (error) => {
+            console.warn(`Bind of ${openId} with code ${pending.code} failed: ${error instanceof Error ? error.message : error}`);
+            await sendTextMessage(account, openId, `❌ 绑定失败：${error instanceof Error ? error.message : error}
+
+请在 Clawdbot 插件中重新生成绑定码后再试。`, replyTo);
+        })
+        .catch((error) => {
+            console.error(`Failed to report bind result to ${openId}:`, error);
+        });
+}
@@ -0,0 +1,226 @@
+import type { WeChatAccount } from '../config.js';
+import { getStore, accountKey } from '../storage/store.js';
+import type { CustomerServiceMessage } from './wechat-message.js';
+import { buildWeChatReply, buildTextReply, WeChatReply } from '../utils/xml-parser.js';
+import { MAX_MESSAGE_BYTES } from '../utils/text-splitter.js';
+
+/**
+ * Replies for accounts in sync reply mode, which have no customer-service API.
+ *
+ * Each message that waits for a result opens a reply slot under its message
+ * ID (see getMessageId). Whatever the bridge sends in answer to it (agent
+ * replies, command results) names that slot and is handed out as the
+ * message's own passive reply, never as the reply to another message.
+ *
+ * WeChat waits 5 seconds for a passive reply and delivers a message up to
+ * three times. Each delivery waits PASSIVE_WAIT_MS for the answer; if it
+ * does not come, the first deliveries stay silent past the limit so WeChat
+ * tries again, and the last one tells the user to fetch the answer with "1".
+ * From then on, and when an answer did not fit in one passive reply, the
+ * slot is kept for "1". Once a slot has been answered in full it is closed:
+ * anything that still arrives for it goes out over the customer-service queue.
+ */
+
+const SLOT_PREFIX = 'wechat:passive:slot:';     // State of a message's reply slot
+const OUTBOX_PREFIX = 'wechat:passive:outbox:'; // Messages waiting in a slot
+const FETCH_PREFIX = 'wechat:passive:fetch:';   // Sorted set of a user's slots kept for "1", by when
+const WAITING_TTL = 60;                         // Seconds a slot waits without a delivery of its message
+const OUTBOX_TTL = 2 * 24 * 60 * 60;
+const POLL_INTERVAL = 200;
+const PASSIVE_WAIT_MS = 4500;   // Leaves time to answer within WeChat's 5 seconds
+const RETRY_SILENCE_MS = 5500;  // Past WeChat's limit, so it delivers the message again
+const LAST_DELIVERY = 3;
+const NOTICE_RESERVE_BYTES = 100;
+
+export const FETCH_COMMAND = '1';
+
+const STILL_WORKING = '⏳ 还在处理中，请稍后回复 1 获取结果。';
+
+// waiting: a delivery of the message takes the answer; fetch: kept for "1"
+type SlotState = 'waiting' | 'fetch';
+
+function slotKey(account: WeChatAccount, messageId: string): string {
+    return accountKey(account, SLOT_PREFIX) + messageId;
+}
+
+function outboxKey(account: WeChatAccount, messageId: string): string {
+    return accountKey(account, OUTBOX_PREFIX) + messageId;
+}
+
+function fetchKey(account: WeChatAccount, openId: string): string {
+    return accountKey(account, FETCH_PREFIX) + openId;
+}
+
+/**
+ * Open a reply slot for a message, before anything can answer it
+ */
+export async function openPassiveReply(account: WeChatAccount, messageId: string): Promise<void> {
+    const state: SlotState = 'waiting';
+    await getStore().set(slotKey(account, messageId), state, { ttl: WAITING_TTL });
+}
+
+/**
+ * Keep messages for the passive reply to a message.
+ * Returns false if its slot is closed; the messages then need another way out.
+ */
+export async function holdPassiveReplies(
+    account: WeChatAccount,
+    messageId: string,
+    messages: CustomerServiceMessage[]
+): Promise<boolean> {
+    const store = getStore();
+    const state = await store.get(slotKey(account, messageId)) as SlotState | null;
+    if (!state) return false;
+
+    const key = outboxKey(account, messageId);
+    await store.rpush(key, ...messages.map((message) => JSON.stringify(message)));
+    await store.expire(key, OUTBOX_TTL);
+    return true;
+}
+
+/**
+ * Whether "1" has something to fetch: a slot the user was told to fetch, or one with messages left
+ */
+export async function hasPassiveReplies(account: WeChatAccount, openId: string): Promise<boolean> {
+    return (await fetchSlots(account, openId)).length > 0;
+}
+
+async function fetchSlots(account: WeChatAccount, openId: string): Promise<string[]> {
+    return getStore().zrangebyscore(fetchKey(account, openId), 0, Number.MAX_SAFE_INTEGER);
+}
+
+async function keepForFetch(account: WeChatAccount, openId: string, messageId: string): Promise<void> {
+    const store = getStore();
+    const key = slotKey(account, messageId);
+    const state: SlotState = 'fetch';
+    if ((await store.get(key)) !== state) {
+        await store.zadd(fetchKey(account, openId), Date.now(), messageId);
+        await store.expire(fetchKey(account, openId), OUTBOX_TTL);
+    }
+    await store.set(key, state, { ttl: OUTBOX_TTL });
+}
+
+async function closeSlot(account: WeChatAccount, openId: string, messageId: string): Promise<void> {
+    const store = getStore();
+    await store.del(slotKey(account, messageId), outboxKey(account, messageId));
+    await store.zrem(fetchKey(account, openId), messageId);
+}
+
+/**
+ * Wait for the answer on one delivery of a message (the first delivery is 1).
+ * With `fetch` ("1"), the answer comes from the slots kept for the user
+ * instead of the message's own. Returns the passive reply XML, or null
+ * once WeChat has given up on this delivery and will retry it.
+ */
+export async function awaitPassiveReply(
+    account: WeChatAccount,
+    openId: string,
+    officialId: string,
+    messageId: string,
+    delivery: number,
+    fetch = false
+): Promise<string | null> {
+    const started = Date.now();
+    if (!fetch) {
+        await extendWaiting(account, messageId);
+    }
+
+    const slots = fetch ? await fetchSlots(account, openId) : [messageId];
+    const reply = await takePassiveReply(account, openId, officialId, slots, PASSIVE_WAIT_MS);
+    if (reply) return reply;
+
+    if (delivery >= LAST_DELIVERY) {
+        if (!fetch) await keepForFetch(account, openId, messageId);
+        return buildTextReply(openId, officialId, STILL_WORKING);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, Math.max(0, started + RETRY_SILENCE_MS - Date.now())));
+    return null;
+}
+
+/**
+ * Keep a waiting slot open while WeChat keeps delivering its message
+ */
+async function extendWaiting(account: WeChatAccount, messageId: string): Promise<void> {
+    const store = getStore();
+    const state: SlotState = 'waiting';
+    if ((await store.get(slotKey(account, messageId))) === state) {
+        await store.expire(slotKey(account, messageId), WAITING_TTL);
+    }
+}
+
+/**
+ * Take the next message from the first slot that has one, as passive reply XML,
+ * waiting up to timeoutMs. Texts that fit are combined; if anything is left,
+ * the slot is kept and the user is told to send "1". A slot answered in full is closed.
+ */
+async function takePassiveReply(
+    account: WeChatAccount,
+    openId: string,
+    officialId: string,
+    slots: string[],
+    timeoutMs: number
+): Promise<string | null> {
+    const store = getStore();
+    const deadline = Date.now() + timeoutMs;
+
+    let slot: string | undefined;
+    let data: string | null = null;
+    while (true) {
+        for (slot of slots) {
+            data = await store.lpop(outboxKey(account, slot));
+            if (data) break;
+        }
+        if (data || Date.now() >= deadline) break;
+        await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+    }
+    if (!data || !slot) return null;
+
+    const key = outboxKey(account, slot);
+    const message = JSON.parse(data) as CustomerServiceMessage;
+    if (message.msgtype === 'text') {
+        while (true) {
+            const next = await store.lindex(key, 0);
+            const nextMessage = next ? JSON.parse(next) as CustomerServiceMessage : null;
+            if (nextMessage?.msgtype !== 'text') break;
+            const combined = `${message.text.content}\n\n${nextMessage.text.content}`;
+            if (Buffer.byteLength(combined, 'utf8') > MAX_MESSAGE_BYTES - NOTICE_RESERVE_BYTES) break;
+            await store.lpop(key);
+            message.text.content = combined;
+        }
+    }
+
+    if ((await store.llen(key)) > 0) {
+        await keepForFetch(account, openId, slot);
+    } else {
+        await closeSlot(account, openId, slot);
+    }
+
+    let remaining = 0;
+    for (const other of await fetchSlots(account, openId)) {
+        remaining += await store.llen(outboxKey(account, other));
+    }
+    if (remaining > 0 && message.msgtype === 'text') {
+        message.text.content += `\n\n📨 还有 ${remaining} 条消息，回复 1 查看`;
+    }
+
+    return buildWeChatReply(toPassiveReply(message, officialId));
+}
+
+function toPassiveReply(message: CustomerServiceMessage, officialId: string): WeChatReply {
+    const base = { ToUserName: message.touser, FromUserName: officialId, CreateTime: Math.floor(Date.now() / 1000) };
+    switch (message.msgtype) {
+        case 'text':
+            return { ...base, MsgType: 'text', Content: message.text.content };
+        case 'image':
+            return { ...base, MsgType: 'image', Image: { MediaId: message.image.media_id } };
+        case 'voice':
+            return { ...base, MsgType: 'voice', Voice: { MediaId: message.voice.media_id } };
+        case 'video':
+            return {
+                ...base,
+                MsgType: 'video',
+                Video: { MediaId: message.video.media_id, Title: message.video.title, Description: message.video.description },
+            };
+    }
+}
@@ -0,0 +1,263 @@
+import type { WebSocket, RawData } from 'ws';
+import { getAccount, getDefaultAccount, WeChatAccount } from '../config.js';
+import crypto from 'crypto';
+import { getStore } from '../storage/store.js';
+import { getBinding, hashToken, isSocketTokenBound, isSocketTokenPending, UserBinding } from './bindings.js';
+import { getTask, TaskRecord } from './task-store.js';
+import {
+    handleCallbackResult,
+    handleStreamChunk,
+    ClawdbotCallbackPayload,
+    ClawdbotStreamPayload,
+} from './callback-handler.js';
+import type { PluginPayload } from './clawdbot-forwarder.js';
+
+/**
+ * Messages sent by the plugin over the socket
+ */
+type PluginSocketMessage =
+    | { type: 'auth'; token: string; version?: string }
+    | { type: 'reply'; task_id: string; openid: string; payload: ClawdbotCallbackPayload }
+    | { type: 'stream'; task_id: string; openid: string; payload: ClawdbotStreamPayload }
+    | { type: 'response'; id: string; payload?: Record<string, unknown>; error?: string };
+
+/**
+ * Messages sent by the bridge over the socket
+ */
+type BridgeSocketMessage =
+    | { type: 'auth_ok' }
+    | { type: 'task'; payload: PluginPayload }
+    | { type: 'request'; id: string; payload: Record<string, unknown> }
+    | { type: 'error'; error: string };
+
+const BUFFER_PREFIX = 'wechat:ws:buffer:';
+const BUFFER_MAX = 200;               // Oldest buffered tasks are dropped beyond this
+const BUFFER_TTL = 24 * 60 * 60;      // Seconds a buffered task is kept while the plugin is offline
+const AUTH_TIMEOUT_MS = 10000;
+const HEARTBEAT_INTERVAL_MS = 30000;
+const CONNECT_POLL_MS = 500;
+
+// Close codes (4000-4999 are reserved for applications)
+const CLOSE_AUTH_FAILED = 4001;
+const CLOSE_REPLACED = 4002;
+
+// Authenticated plugin sockets, keyed by token hash
+const sockets = new Map<string, WebSocket>();
+
+// Requests to plugins waiting for their response, keyed by request ID
+const pendingRequests = new Map<string, {
+    tokenHash: string;
+    resolve: (payload: Record<string, unknown>) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}>();
+
+function send(socket: WebSocket, message: BridgeSocketMessage): void {
+    socket.send(JSON.stringify(message));
+}
+
+/**
+ * Push a task to the plugin over its socket.
+ * If the plugin is offline the task is buffered and delivered on reconnect.
+ */
+export async function dispatchToPlugin(
+    binding: UserBinding,
+    payload: PluginPayload
+): Promise<'sent' | 'buffered'> {
+    const tokenHash = hashToken(binding.token);
+    const socket = sockets.get(tokenHash);
+
+    if (socket && socket.readyState === socket.OPEN) {
+        send(socket, { type: 'task', payload });
+        return 'sent';
+    }
+
+    const store = getStore();
+    const key = BUFFER_PREFIX + tokenHash;
+    await store.rpush(key, JSON.stringify(payload));
+    await store.ltrim(key, -BUFFER_MAX, -1);
+    await store.expire(key, BUFFER_TTL);
+    return 'buffered';
+}
+
+/**
+ * Send a request to a plugin over its socket and wait for the answer.
+ * A plugin that is just (re)connecting is given until the timeout to show up.
+ */
+export async function requestPlugin(
+    tokenHash: string,
+    payload: Record<string, unknown>,
+    timeoutMs: number
+): Promise<Record<string, unknown>> {
+    const deadline = Date.now() + timeoutMs;
+    let socket = sockets.get(tokenHash);
+    while (!socket || socket.readyState !== socket.OPEN) {
+        if (Date.now() >= deadline) {
+            throw new Error('Plugin is not connected');
+        }
+        await new Promise((resolve) => setTimeout(resolve, CONNECT_POLL_MS));
+        socket = sockets.get(tokenHash);
+    }
+
+    const id = crypto.randomUUID();
+    const connected = socket;
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            pendingRequests.delete(id);
+            reject(new Error('Plugin did not answer in time'));
+        }, Math.max(deadline - Date.now(), 0));
+        pendingRequests.set(id, { tokenHash, resolve, reject, timer });
+        send(connected, { type: 'request', id, payload });
+    });
+}
+
+/**
+ * Hand a plugin's response to the request waiting for it
+ */
+function settleRequest(tokenHash: string, message: { id: string; payload?: Record<string, unknown>; error?: string }): void {
+    const pending = pendingRequests.get(message.id);
+    if (!pending || pending.tokenHash !== tokenHash) return;
+
+    pendingRequests.delete(message.id);
+    clearTimeout(pending.timer);
+    if (message.error) {
+        pending.reject(new Error(message.error));
+    } else {
+        pending.resolve(message.payload || {});
+    }
+}
+
+/**
+ * Deliver tasks buffered while the plugin was offline
+ */
+async function flushBuffer(tokenHash: string, socket: WebSocket): Promise<void> {
+    const store = getStore();
+    const key = BUFFER_PREFIX + tokenHash;
+
+    while (socket.readyState === socket.OPEN) {
+        const data = await store.lpop(key);
+        if (!data) break;
+        send(socket, { type: 'task', payload: JSON.parse(data) as PluginPayload });
+    }
+}
+
+/**
+ * Check that a reply over the socket belongs to a task started by this plugin.
+ * Returns the task and the account it came from, or null.
+ */
+async function findOwnTask(
+    tokenHash: string,
+    taskId: string,
+    openId: string
+): Promise<{ account: WeChatAccount; task: TaskRecord } | null> {
+    const task = await getTask(taskId);
+    if (!task || task.openId !== openId) return null;
+
+    const account = task.accountKey ? getAccount(task.accountKey) : getDefaultAccount();
+    if (!account) return null;
+
+    const binding = await getBinding(account, openId);
+    const owned = !!binding && binding.id === task.bindingId && hashToken(binding.token) === tokenHash;
+    return owned ? { account, task } : null;
+}
+
+/**
+ * Handle a new plugin connection: authenticate, keep alive, route replies
+ */
+export function handlePluginSocket(socket: WebSocket, remoteAddress: string): void {
+    let tokenHash: string | null = null;
+    let alive = true;
+
+    const authTimer = setTimeout(() => {
+        if (!tokenHash) {
+            socket.close(CLOSE_AUTH_FAILED, 'Authentication timeout');
+        }
+    }, AUTH_TIMEOUT_MS);
+
+    // Drop sockets that stop answering pings
+    const heartbeat = setInterval(() => {
+        if (!alive) {
+            console.warn(`Plugin socket from ${remoteAddress} missed heartbeat, terminating`);
+            socket.terminate();
+            return;
+        }
+        alive = false;
+        socket.ping();
+    }, HEARTBEAT_INTERVAL_MS);
+
+    socket.on('pong', () => {
+        alive = true;
+    });
+
+    socket.on('close', () => {
+        clearTimeout(authTimer);
+        clearInterval(heartbeat);
+        if (tokenHash && sockets.get(tokenHash) === socket) {
+            sockets.delete(tokenHash);
+            console.log(`Plugin socket disconnected (${tokenHash.slice(0, 8)})`);
+        }
+    });
+
+    socket.on('message', async (raw: RawData) => {
+        let message: PluginSocketMessage;
+        try {
+            message = JSON.parse(raw.toString()) as PluginSocketMessage;
+        } catch {
+            send(socket, { type: 'error', error: 'Invalid JSON' });
+            return;
+        }
+
+        try {
+            if (message.type === 'auth') {
+                const hash = hashToken(message.token || '');
+                if (!(await isSocketTokenBound(hash)) && !(await isSocketTokenPending(hash))) {
+                    console.warn(`Rejected plugin socket from ${remoteAddress}: unknown token`);
+                    socket.close(CLOSE_AUTH_FAILED, 'Unknown token');
+                    return;
+                }
+
+                clearTimeout(authTimer);
+                tokenHash = hash;
+
+                const previous = sockets.get(hash);
+                if (previous && previous !== socket) {
+                    previous.close(CLOSE_REPLACED, 'Replaced by a new connection');
+                }
+                sockets.set(hash, socket);
+
+                console.log(`Plugin socket authenticated (${hash.slice(0, 8)}, version ${message.version || 'unknown'})`);
+                send(socket, { type: 'auth_ok' });
+                await flushBuffer(hash, socket);
+                return;
+            }
+
+            if (!tokenHash) {
+                socket.close(CLOSE_AUTH_FAILED, 'Not authenticated');
+                return;
+            }
+
+            if (message.type === 'response') {
+                settleRequest(tokenHash, message);
+                return;
+            }
+
+            const own = await findOwnTask(tokenHash, message.task_id, message.openid);
+            if (!own) {
+                console.warn(`Rejected socket ${message.type} for unknown task ${message.task_id}`);
+                send(socket, { type: 'error', error: `Unknown task ${message.task_id}` });
+                return;
+            }
+
+            if (message.type === 'reply') {
+                const { mediaErrors } = await handleCallbackResult(own.account, message.openid, own.task, message.payload);
+                if (mediaErrors.length > 0) {
+                    send(socket, { type: 'error', error: `Media not sent for task ${message.task_id}: ${mediaErrors.join('; ')}` });
+                }
+            } else if (message.type === 'stream') {
+                await handleStreamChunk(own.account, message.openid, message.task_id, own.task, message.payload);
+            }
+        } catch (error) {
+            console.error('Error handling plugin socket message:', error);
+        }
+    });
+}
@@ -0,0 +1,70 @@
+import axios from 'axios';
+import type { WeChatAccount } from '../config.js';
+import { getAccessToken, forceRefreshToken } from './wechat-token.js';
+
+const QRCODE_CREATE_API = 'https://api.weixin.qq.com/cgi-bin/qrcode/create';
+const QRCODE_SHOW_URL = 'https://mp.weixin.qq.com/cgi-bin/showqrcode';
+
+// Scene of a bind QR code: bind_<code>. Scanning it before following
+// delivers the scene as "qrscene_bind_<code>" with the subscribe event.
+const BIND_SCENE_PREFIX = 'bind_';
+const SUBSCRIBE_SCENE_PREFIX = 'qrscene_';
+
+/**
+ * A temporary parametric QR code
+ */
+export interface QrCode {
+    ticket: string;
+    url: string;      // Content of the QR code, for rendering it yourself
+    imageUrl: string; // Image served by WeChat
+    expiresIn: number;
+}
+
+/**
+ * Create a temporary QR code that binds whoever scans it with a bind code
+ */
+export async function createBindQrCode(
+    account: WeChatAccount,
+    code: string,
+    expiresIn: number,
+    retryOnTokenError = true
+): Promise<QrCode> {
+    const accessToken = await getAccessToken(account);
+
+    const response = await axios.post(
+        QRCODE_CREATE_API,
+        {
+            expire_seconds: expiresIn,
+            action_name: 'QR_STR_SCENE',
+            action_info: { scene: { scene_str: BIND_SCENE_PREFIX + code } },
+        },
+        { params: { access_token: accessToken } }
+    );
+
+    if (response.data.ticket) {
+        return {
+            ticket: response.data.ticket,
+            url: response.data.url,
+            imageUrl: `${QRCODE_SHOW_URL}?ticket=${encodeURIComponent(response.data.ticket)}`,
+            expiresIn: response.data.expire_seconds || expiresIn,
+        };
+    }
+
+    if (response.data.errcode === 40001 && retryOnTokenError) {
+        await forceRefreshToken(account);
+        return createBindQrCode(account, code, expiresIn, false);
+    }
+
+    throw new Error(`WeChat QR code error: ${response.data.errcode} - ${response.data.errmsg}`);
+}
+
+/**
+ * The bind code in the EventKey of a subscribe or SCAN event, if it came from a bind QR code
+ */
+export function parseBindScene(eventKey: unknown): string | null {
+    let scene = String(eventKey ?? '');
+    if (scene.startsWith(SUBSCRIBE_SCENE_PREFIX)) {
+        scene = scene.slice(SUBSCRIBE_SCENE_PREFIX.length);
+    }
+    return scene.startsWith(BIND_SCENE_PREFIX) ? scene.slice(BIND_SCENE_PREFIX.length) : null;
+}
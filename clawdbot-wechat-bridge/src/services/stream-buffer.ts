@@ -0,0 +1,257 @@
+import { getConfig, resolveAccount, WeChatAccount } from '../config.js';
+import { getStore } from '../storage/store.js';
+import { sendTextMessage } from './wechat-message.js';
+
+/**
+ * Per-task buffers for streamed replies.
+ *
+ * Chunks are stored by `chunk_index` and appended to the reply in order.
+ * A chunk that arrives early waits for the missing ones; if they never
+ * come, or the plugin goes quiet, a sweeper flushes what we have. In
+ * progressive mode, parts of the reply are sent as soon as enough text (or
+ * time) has accumulated, so long answers arrive in pieces.
+ */
+
+export interface StreamChunk {
+    chunk: string;
+    done: boolean;
+    chunk_index?: number;
+}
+
+const STREAM_PREFIX = 'wechat:stream:';          // Hash with the state of a task's stream
+const CHUNKS_PREFIX = 'wechat:stream:chunks:';   // Hash of chunk_index -> chunk not yet appended
+const LOCK_PREFIX = 'wechat:stream:lock:';
+const DUE_KEY = 'wechat:stream:due';             // Sorted set of task IDs by when they need attention
+const LOCK_TTL = 30;
+const SWEEP_INTERVAL_MS = 5000;
+const GAP_NOTICE = '\n\n[…部分内容缺失…]\n\n';
+
+interface StreamState {
+    accountKey?: string;
+    openId: string;
+    replyTo?: string;      // Sync reply mode: the message the reply answers
+    next: number;          // Index of the next chunk to append
+    pending: string;       // Text appended but not sent yet
+    done?: number;         // Index of the final chunk, once it has arrived
+    lastChunkAt: number;
+    lastSentAt: number;
+    sentParts: number;
+}
+
+function parseState(data: Record<string, string>): StreamState | null {
+    if (!data.openId) return null;
+    return {
+        accountKey: data.accountKey,
+        openId: data.openId,
+        replyTo: data.replyTo || undefined,
+        next: parseInt(data.next || '0', 10),
+        pending: data.pending || '',
+        done: data.done !== undefined && data.done !== '' ? parseInt(data.done, 10) : undefined,
+        lastChunkAt: parseInt(data.lastChunkAt || '0', 10),
+        lastSentAt: parseInt(data.lastSentAt || '0', 10),
+        sentParts: parseInt(data.sentParts || '0', 10),
+    };
+}
+
+/**
+ * Store a streamed chunk and send whatever is ready.
+ * Returns whether the reply is still being buffered.
+ */
+export async function appendStreamChunk(
+    account: WeChatAccount,
+    openId: string,
+    taskId: string,
+    payload: StreamChunk,
+    replyTo?: string
+): Promise<{ ok: boolean; buffered: boolean }> {
+    const store = getStore();
+    const stateKey = STREAM_PREFIX + taskId;
+    const chunksKey = CHUNKS_PREFIX + taskId;
+    const ttl = getConfig().stream.timeout * 2;
+    const now = Date.now();
+
+    // Chunks without an index are numbered in arrival order
+    const index = typeof payload.chunk_index === 'number'
+        ? payload.chunk_index
+        : (await store.hincrby(stateKey, 'autoIndex', 1)) - 1;
+
+    await store.hsetnx(stateKey, 'accountKey', account.key);
+    await store.hsetnx(stateKey, 'openId', openId);
+    if (replyTo) {
+        await store.hsetnx(stateKey, 'replyTo', replyTo);
+    }
+    await store.hsetnx(stateKey, 'lastSentAt', String(now));
+    await store.hset(stateKey, { lastChunkAt: String(now) });
+    if (payload.done) {
+        await store.hset(stateKey, { done: String(index) });
+    }
+
+    // A retried chunk must not overwrite (or re-append) the first copy
+    const next = parseInt((await store.hget(stateKey, 'next')) || '0', 10);
+    if (index >= next) {
+        await store.hsetnx(chunksKey, String(index), payload.chunk || '');
+    }
+    await store.expire(stateKey, ttl);
+    await store.expire(chunksKey, ttl);
+
+    const finished = await processStream(taskId);
+    return { ok: true, buffered: !finished };
+}
+
+/**
+ * Append ready chunks and send what is due. Returns true once the stream is finished.
+ */
+async function processStream(taskId: string): Promise<boolean> {
+    const store = getStore();
+    const lockKey = LOCK_PREFIX + taskId;
+
+    // One worker per task, so chunks are appended exactly once and in order
+    const locked = await store.set(lockKey, '1', { ttl: LOCK_TTL, nx: true });
+    if (!locked) return false;
+
+    let finished = false;
+    try {
+        finished = await doProcess(taskId);
+    } finally {
+        await store.del(lockKey);
+    }
+
+    // A chunk may have arrived while we held the lock
+    if (!finished) {
+        const state = parseState(await store.hgetall(STREAM_PREFIX + taskId));
+        if (state && (await store.hexists(CHUNKS_PREFIX + taskId, String(state.next)))) {
+            return processStream(taskId);
+        }
+    }
+    return finished;
+}
+
+async function doProcess(taskId: string): Promise<boolean> {
+    const store = getStore();
+    const config = getConfig().stream;
+    const stateKey = STREAM_PREFIX + taskId;
+    const chunksKey = CHUNKS_PREFIX + taskId;
+
+    const state = parseState(await store.hgetall(stateKey));
+    if (!state) {
+        await store.zrem(DUE_KEY, taskId);
+        return true;
+    }
+
+    const account = resolveAccount(state.accountKey);
+
+    // Append every chunk that continues the reply
+    while (true) {
+        const chunk = await store.hget(chunksKey, String(state.next));
+        if (chunk === null) break;
+        state.pending += chunk;
+        await store.hdel(chunksKey, String(state.next));
+        state.next++;
+    }
+
+    const now = Date.now();
+    const waiting = await store.hkeys(chunksKey);
+    const hasGap = waiting.length > 0 || (state.done !== undefined && state.next <= state.done);
+    const deadline = state.lastChunkAt + (hasGap ? config.gapTimeout : config.timeout) * 1000;
+
+    if (hasGap && waiting.length > 0) {
+        console.warn(`Stream ${taskId} is missing chunk ${state.next}, holding ${waiting.length} later chunk(s)`);
+    }
+
+    const complete = state.done !== undefined && state.next > state.done;
+    if (complete || now >= deadline) {
+        let text = state.pending;
+
+        if (!complete) {
+            // Give up on the missing chunks and send the rest in order
+            const indexes = waiting.map(Number).sort((a, b) => a - b);
+            let expected = state.next;
+            for (const i of indexes) {
+                text += (i === expected ? '' : GAP_NOTICE) + ((await store.hget(chunksKey, String(i))) || '');
+                expected = i + 1;
+            }
+            if (state.done === undefined || expected <= state.done) {
+                text += GAP_NOTICE.trimEnd();
+            }
+            console.warn(`Stream ${taskId} timed out at chunk ${state.next}, flushing what was received`);
+        }
+
+        if (text.trim()) {
+            await sendTextMessage(account, state.openId, text, state.replyTo);
+        }
+        await store.del(stateKey, chunksKey);
+        await store.zrem(DUE_KEY, taskId);
+        console.log(`Stream ${taskId} for ${state.openId} finished after ${state.next} chunk(s), ${state.sentParts + 1} part(s)`);
+        return true;
+    }
+
+    // Progressive mode: send a part once enough text or time has built up
+    let nextDue = deadline;
+    if (config.mode === 'progressive' && state.pending) {
+        const bySize = Buffer.byteLength(state.pending, 'utf8') >= config.flushBytes;
+        const byTime = now - state.lastSentAt >= config.flushInterval * 1000;
+
+        if (bySize || byTime) {
+            const cut = findFlushPoint(state.pending, bySize);
+            if (cut > 0) {
+                await sendTextMessage(account, state.openId, state.pending.slice(0, cut).trimEnd(), state.replyTo);
+                state.pending = state.pending.slice(cut).replace(/^\s*\n/, '');
+                state.lastSentAt = now;
+                state.sentParts++;
+            }
+        }
+        if (state.pending) {
+            nextDue = Math.min(nextDue, state.lastSentAt + config.flushInterval * 1000);
+        }
+    }
+
+    await store.hset(stateKey, {
+        next: String(state.next),
+        pending: state.pending,
+        lastSentAt: String(state.lastSentAt),
+        sentParts: String(state.sentParts),
+    });
+    await store.zadd(DUE_KEY, nextDue, taskId);
+    return false;
+}
+
+/**
+ * Where to cut the pending text for a progressive send:
+ * after the last line or sentence, never inside an open code block.
+ * With `force`, send everything if there is no better boundary.
+ */
+function findFlushPoint(text: string, force: boolean): number {
+    let cut = text.lastIndexOf('\n') + 1;
+    if (cut === 0) {
+        const sentence = [...text.matchAll(/[。！？!?]+|\.(?=\s)/g)].pop();
+        cut = sentence ? sentence.index! + sentence[0].length : 0;
+    }
+    if (cut === 0 && force) {
+        cut = text.length;
+    }
+
+    // Don't split an unterminated code fence across messages
+    const fences = text.slice(0, cut).match(/^\s*(```|~~~)/gm) || [];
+    if (fences.length % 2 === 1) {
+        const lastFence = text.slice(0, cut).search(/^\s*(```|~~~)(?![\s\S]*^\s*(```|~~~))/m);
+        cut = lastFence > 0 ? lastFence : 0;
+    }
+    return cut;
+}
+
+/**
+ * Periodically flush streams that timed out or are due a progressive send.
+ * Also picks up streams left over from a previous run.
+ */
+export function startStreamSweeper(): NodeJS.Timeout {
+    return setInterval(async () => {
+        try {
+            const taskIds = await getStore().zrangebyscore(DUE_KEY, 0, Date.now());
+            for (const taskId of taskIds) {
+                await processStream(taskId);
+            }
+        } catch (error) {
+            console.error('Stream sweeper failed:', error);
+        }
+    }, SWEEP_INTERVAL_MS);
+}
@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import type { WeChatAccount } from '../config.js';
+import { getStore } from '../storage/store.js';
+
+/**
+ * A task forwarded to Clawdbot, awaiting callbacks
+ */
+export interface TaskRecord {
+    accountKey?: string; // Official account the task came from (unset: default account)
+    openId: string;
+    bindingId: string; // Binding that started the task
+    replyTo?: string;  // Sync reply mode: the message whose passive reply the result is (see passive-reply.ts)
+    createdAt: number;
+}
+
+const TASK_PREFIX = 'wechat:task:';
+const TASK_TTL = 2 * 24 * 60 * 60; // Agent tasks never outlive the 48h customer-service window
+
+/**
+ * Register a new task and return its ID
+ */
+export async function createTask(
+    account: WeChatAccount,
+    openId: string,
+    bindingId: string,
+    replyTo?: string
+): Promise<string> {
+    const store = getStore();
+    const taskId = crypto.randomUUID();
+    const task: TaskRecord = {
+        accountKey: account.key,
+        openId,
+        bindingId,
+        replyTo,
+        createdAt: Date.now(),
+    };
+    await store.set(TASK_PREFIX + taskId, JSON.stringify(task), { ttl: TASK_TTL });
+    return taskId;
+}
+
+/**
+ * Look up a task by ID
+ */
+export async function getTask(taskId: string): Promise<TaskRecord | null> {
+    const store = getStore();
+    const data = await store.get(TASK_PREFIX + taskId);
+    if (!data) return null;
+    try {
+        return JSON.parse(data) as TaskRecord;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,96 @@
+import { getConfig, WeChatAccount } from '../config.js';
+import { sendTextMessage, sendTypingStatus, isWindowClosed } from './wechat-message.js';
+
+/**
+ * Signs of life while the agent works on a user's message.
+ *
+ * From the moment a message is forwarded until the first reply for the user
+ * arrives, "typing..." is shown in the chat (renewed before WeChat hides it).
+ * If the wait passes PROGRESS_NOTICE_SECONDS a progress message is sent once,
+ * and after TYPING_MAX_SECONDS we stop waiting; the plugin reports its own
+ * timeout as a reply. Waits are tracked per process: a reply that reaches
+ * another bridge instance leaves the indicator running until it times out.
+ *
+ * The first failure to show "typing..." is logged, later ones are not. Once
+ * the customer-service window is found closed the indicator is given up.
+ */
+
+interface Wait {
+    timers: NodeJS.Timeout[];
+    refresh?: NodeJS.Timeout;
+    typingFailed: boolean;  // A failure was logged already
+    typingClosed: boolean;  // The window is closed, so typing is off for this wait
+}
+
+const REFRESH_INTERVAL_MS = 10000;
+
+const waits = new Map<string, Wait>();
+
+function waitKey(account: WeChatAccount, openId: string): string {
+    return `${account.key}:${openId}`;
+}
+
+/**
+ * Start waiting for a reply to the user (no-op if we already are)
+ */
+export function startTyping(account: WeChatAccount, openId: string): void {
+    const { typing } = getConfig();
+    const key = waitKey(account, openId);
+    // Sync reply mode has no customer-service API to show any of this with
+    if (account.replyMode === 'sync' || waits.has(key) || (!typing.enabled && typing.progressAfter <= 0)) return;
+
+    const wait: Wait = { timers: [], typingFailed: false, typingClosed: false };
+    waits.set(key, wait);
+
+    if (typing.enabled) {
+        void showTyping(account, openId, wait);
+        wait.refresh = setInterval(() => void showTyping(account, openId, wait), REFRESH_INTERVAL_MS);
+    }
+
+    if (typing.progressAfter > 0) {
+        wait.timers.push(setTimeout(() => {
+            sendTextMessage(account, openId, typing.progressText).catch((error) => {
+                console.error(`Failed to send progress notice to ${openId}:`, error);
+            });
+        }, typing.progressAfter * 1000));
+    }
+
+    wait.timers.push(setTimeout(() => {
+        console.warn(`No reply for ${openId} (account ${account.key}) after ${typing.maxDuration}s, hiding typing indicator`);
+        stopTyping(account, openId);
+    }, typing.maxDuration * 1000));
+}
+
+/**
+ * Show "typing..." once more, giving up for the wait if the window is closed
+ */
+async function showTyping(account: WeChatAccount, openId: string, wait: Wait): Promise<void> {
+    if (wait.typingClosed) return;
+    const result = await sendTypingStatus(account, openId, 'Typing');
+    if (result.ok) return;
+
+    if (isWindowClosed(result)) {
+        wait.typingClosed = true;
+        clearInterval(wait.refresh);
+        console.warn(`Customer-service window with ${openId} (account ${account.key}) is closed, not showing typing`);
+    } else if (!wait.typingFailed) {
+        console.warn(`Failed to show typing to ${openId} (account ${account.key}): ${result.errmsg}`);
+    }
+    wait.typingFailed = true;
+}
+
+/**
+ * Stop waiting: a reply for the user arrived (or we gave up)
+ */
+export function stopTyping(account: WeChatAccount, openId: string): void {
+    const key = waitKey(account, openId);
+    const wait = waits.get(key);
+    if (!wait) return;
+
+    waits.delete(key);
+    for (const timer of wait.timers) clearTimeout(timer);
+    clearInterval(wait.refresh);
+    if (getConfig().typing.enabled && !wait.typingClosed) {
+        void sendTypingStatus(account, openId, 'CancelTyping');
+    }
+}
@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import { getConfig, WeChatAccount } from '../config.js';
+import { getStore, accountKey } from '../storage/store.js';
+import { validateSignature } from '../utils/signature.js';
+
+const NONCE_PREFIX = 'wechat:inbound:nonce:';
+const RETRY_WINDOW = 30; // Seconds in which WeChat re-sends a push it got no answer for
+
+export type WeChatAuthResult =
+    | { ok: true }
+    | { ok: false; status: 400 | 403; reason: string };
+
+interface NonceRecord {
+    bodyHash: string;
+    seenAt: number;
+}
+
+/**
+ * Verify a request WeChat pushed to /wechat: the signature must match the
+ * account's token, the timestamp must be within WECHAT_MAX_CLOCK_SKEW_SECONDS
+ * and the timestamp + nonce must not have been used before.
+ *
+ * WeChat re-sends a push it got no answer for; a repeat with the same body
+ * shortly after the first delivery is let through (dedupe then answers it),
+ * anything else reusing a nonce is a replay.
+ */
+export async function verifyWeChatRequest(
+    account: WeChatAccount,
+    signature: string | undefined,
+    timestamp: string | undefined,
+    nonce: string | undefined,
+    body: string
+): Promise<WeChatAuthResult> {
+    if (!signature || !timestamp || !nonce) {
+        return { ok: false, status: 400, reason: 'Missing parameters' };
+    }
+
+    if (!validateSignature(account.token, signature, timestamp, nonce)) {
+        return { ok: false, status: 403, reason: 'Invalid signature' };
+    }
+
+    const maxClockSkew = getConfig().wechat.maxClockSkew;
+    const now = Math.floor(Date.now() / 1000);
+    const ts = Number(timestamp);
+    if (!Number.isInteger(ts) || Math.abs(now - ts) > maxClockSkew) {
+        return { ok: false, status: 403, reason: `Stale or invalid timestamp ${timestamp}` };
+    }
+
+    // Only remember the nonce once the signature checks out
+    const store = getStore();
+    const key = accountKey(account, NONCE_PREFIX) + `${timestamp}:${nonce}`;
+    const record: NonceRecord = {
+        bodyHash: crypto.createHash('sha256').update(body).digest('hex'),
+        seenAt: now,
+    };
+    if (await store.set(key, JSON.stringify(record), { ttl: maxClockSkew * 2, nx: true })) {
+        return { ok: true };
+    }
+
+    const first = JSON.parse((await store.get(key)) || 'null') as NonceRecord | null;
+    if (first && first.bodyHash === record.bodyHash && now - first.seenAt <= RETRY_WINDOW) {
+        return { ok: true };
+    }
+    return { ok: false, status: 403, reason: 'Replayed nonce' };
+}
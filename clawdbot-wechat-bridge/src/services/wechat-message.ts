@@ -1,7 +1,15 @@
 import axios from 'axios';
+import type { WeChatAccount } from '../config.js';
 import { getAccessToken, forceRefreshToken } from './wechat-token.js';
+import { enqueueMessages } from './outbound-queue.js';
+import { splitMessage } from '../utils/text-splitter.js';
 
 const CUSTOMER_SERVICE_API = 'https://api.weixin.qq.com/cgi-bin/message/custom/send';
+const TEMPLATE_MESSAGE_API = 'https://api.weixin.qq.com/cgi-bin/message/template/send';
+const TYPING_API = 'https://api.weixin.qq.com/cgi-bin/message/custom/typing';
+// A send that hangs would outlive the outbound queue's lock, letting a second worker
+// send the same message; even with a token refresh and a retry this stays well below it
+const SEND_TIMEOUT_MS = 10000;
 
 interface CustomerServiceTextMessage {
     touser: string;
@@ -19,105 +27,172 @@ interface CustomerServiceImageMessage {
     };
 }
 
-type CustomerServiceMessage = CustomerServiceTextMessage | CustomerServiceImageMessage;
+interface CustomerServiceVoiceMessage {
+    touser: string;
+    msgtype: 'voice';
+    voice: {
+        media_id: string;
+    };
+}
+
+interface CustomerServiceVideoMessage {
+    touser: string;
+    msgtype: 'video';
+    video: {
+        media_id: string;
+        thumb_media_id?: string;
+        title?: string;
+        description?: string;
+    };
+}
+
+export type CustomerServiceMessage =
+    | CustomerServiceTextMessage
+    | CustomerServiceImageMessage
+    | CustomerServiceVoiceMessage
+    | CustomerServiceVideoMessage;
+
+/**
+ * Outcome of a single send attempt
+ */
+export type SendResult =
+    | { ok: true }
+    | { ok: false; errcode?: number; errmsg: string; transient: boolean };
+
+// -1: system busy, 45009: API call frequency limit reached
+const TRANSIENT_ERRCODES = new Set([-1, 45009]);
+
+// 45015: reply time limit exceeded, 45047: reply count limit exceeded
+const WINDOW_CLOSED_ERRCODES = new Set([45015, 45047]);
+
+/**
+ * Whether a failed send means the 48h customer-service window is closed
+ */
+export function isWindowClosed(result: SendResult): boolean {
+    return !result.ok && result.errcode !== undefined && WINDOW_CLOSED_ERRCODES.has(result.errcode);
+}
 
 /**
  * Send a customer service message to a WeChat user
  */
 export async function sendCustomerServiceMessage(
-    message: CustomerServiceMessage,
-    retryOnTokenError = true
-): Promise<boolean> {
+    account: WeChatAccount,
+    message: CustomerServiceMessage
+): Promise<SendResult> {
+    return callMessageApi(account, CUSTOMER_SERVICE_API, message);
+}
+
+/**
+ * Send a template message (works outside the customer-service window)
+ */
+export async function sendTemplateMessage(
+    account: WeChatAccount,
+    openId: string,
+    templateId: string,
+    data: Record<string, string>,
+    url?: string
+): Promise<SendResult> {
+    const fields: Record<string, { value: string }> = {};
+    for (const [key, value] of Object.entries(data)) {
+        fields[key] = { value };
+    }
+    return callMessageApi(account, TEMPLATE_MESSAGE_API, {
+        touser: openId,
+        template_id: templateId,
+        url,
+        data: fields,
+    });
+}
+
+/**
+ * Show or hide "typing..." in the user's chat (shown for about 15 seconds per call).
+ * Failures are left to the caller to report.
+ */
+export async function sendTypingStatus(
+    account: WeChatAccount,
+    openId: string,
+    command: 'Typing' | 'CancelTyping'
+): Promise<SendResult> {
+    return callMessageApi(account, TYPING_API, { touser: openId, command }, { quiet: true });
+}
+
+/**
+ * POST to a message API with the access token, classifying failures
+ * (logged unless quiet)
+ */
+async function callMessageApi(
+    account: WeChatAccount,
+    api: string,
+    body: unknown,
+    options: { quiet?: boolean; retryOnTokenError?: boolean } = {}
+): Promise<SendResult> {
+    const { quiet = false, retryOnTokenError = true } = options;
     try {
-        const accessToken = await getAccessToken();
+        const accessToken = await getAccessToken(account);
 
         const response = await axios.post(
-            `${CUSTOMER_SERVICE_API}?access_token=${accessToken}`,
-            message,
+            `${api}?access_token=${accessToken}`,
+            body,
             {
                 headers: {
                     'Content-Type': 'application/json',
                 },
+                timeout: SEND_TIMEOUT_MS,
             }
         );
 
         if (response.data.errcode === 0) {
-            return true;
+            return { ok: true };
         }
 
         // Token expired error - retry with fresh token
         if (response.data.errcode === 40001 && retryOnTokenError) {
             console.warn('Access token expired, refreshing...');
-            await forceRefreshToken();
-            return sendCustomerServiceMessage(message, false);
+            await forceRefreshToken(account);
+            return callMessageApi(account, api, body, { ...options, retryOnTokenError: false });
         }
 
-        console.error('Failed to send customer service message:', response.data);
-        return false;
+        if (!quiet) console.error('Failed to send message:', response.data);
+        return {
+            ok: false,
+            errcode: response.data.errcode,
+            errmsg: response.data.errmsg || 'unknown error',
+            transient: TRANSIENT_ERRCODES.has(response.data.errcode),
+        };
     } catch (error) {
-        console.error('Error sending customer service message:', error);
-        return false;
+        // Network failures and 5xx responses are worth retrying
+        if (!quiet) console.error('Error sending message:', error);
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        return {
+            ok: false,
+            errmsg: error instanceof Error ? error.message : String(error),
+            transient: status === undefined || status >= 500,
+        };
     }
 }
 
 /**
- * Send a text message to a WeChat user via Customer Service API
+ * Queue a text message to a WeChat user via Customer Service API.
+ * Long messages are split and queued as one ordered batch.
+ * Resolves with the queue job ID once the batch is stored.
+ * `replyTo` names the message it answers (see enqueueMessages).
  */
-export async function sendTextMessage(openId: string, content: string): Promise<boolean> {
-    // WeChat limits message length to 600 characters for customer service messages
-    // Split long messages if needed
-    const MAX_LENGTH = 600;
-
-    if (content.length <= MAX_LENGTH) {
-        return sendCustomerServiceMessage({
-            touser: openId,
-            msgtype: 'text',
-            text: { content },
-        });
-    }
-
-    // Split into chunks
-    const chunks: string[] = [];
-    let remaining = content;
-
-    while (remaining.length > 0) {
-        if (remaining.length <= MAX_LENGTH) {
-            chunks.push(remaining);
-            break;
-        }
-
-        // Try to split at a natural break point
-        let splitIndex = remaining.lastIndexOf('\n', MAX_LENGTH);
-        if (splitIndex === -1 || splitIndex < MAX_LENGTH / 2) {
-            splitIndex = remaining.lastIndexOf(' ', MAX_LENGTH);
-        }
-        if (splitIndex === -1 || splitIndex < MAX_LENGTH / 2) {
-            splitIndex = MAX_LENGTH;
-        }
-
-        chunks.push(remaining.substring(0, splitIndex));
-        remaining = remaining.substring(splitIndex).trimStart();
-    }
-
-    // Send chunks with small delay between them
-    let success = true;
-    for (let i = 0; i < chunks.length; i++) {
-        const chunk = i === 0 ? chunks[i] : `(${i + 1}/${chunks.length}) ${chunks[i]}`;
-        const result = await sendCustomerServiceMessage({
-            touser: openId,
-            msgtype: 'text',
-            text: { content: chunk },
-        });
-
-        if (!result) {
-            success = false;
-        }
-
-        // Small delay between messages to preserve order
-        if (i < chunks.length - 1) {
-            await new Promise(resolve => setTimeout(resolve, 100));
-        }
-    }
+export async function sendTextMessage(
+    account: WeChatAccount,
+    openId: string,
+    content: string,
+    replyTo?: string
+): Promise<string> {
+    return enqueueMessages(account, openId, buildTextMessages(openId, content), replyTo);
+}
 
-    return success;
+/**
+ * Build the customer service messages for a (possibly long) text
+ */
+export function buildTextMessages(openId: string, content: string): CustomerServiceMessage[] {
+    return splitMessage(content).map((part) => ({
+        touser: openId,
+        msgtype: 'text',
+        text: { content: part },
+    }));
 }
@@ -1,10 +1,11 @@
 import axios from 'axios';
-import { getConfig } from '../config.js';
-import { getRedis } from './redis.js';
+import type { WeChatAccount } from '../config.js';
+import { getStore, accountKey } from '../storage/store.js';
 
 const TOKEN_KEY = 'wechat:access_token';
 const TOKEN_LOCK_KEY = 'wechat:access_token:lock';
 const TOKEN_REFRESH_THRESHOLD = 600; // Refresh 10 minutes before expiry
+const TOKEN_TIMEOUT_MS = 10000;
 
 interface TokenCache {
     accessToken: string;
@@ -14,9 +15,9 @@ interface TokenCache {
 /**
  * Get a valid WeChat access token (with auto-refresh)
  */
-export async function getAccessToken(): Promise<string> {
-    const redis = getRedis();
-    const cached = await redis.get(TOKEN_KEY);
+export async function getAccessToken(account: WeChatAccount): Promise<string> {
+    const store = getStore();
+    const cached = await store.get(accountKey(account, TOKEN_KEY));
 
     if (cached) {
         const tokenData: TokenCache = JSON.parse(cached);
@@ -29,23 +30,23 @@ export async function getAccessToken(): Promise<string> {
     }
 
     // Need to refresh token
-    return refreshAccessToken();
+    return refreshAccessToken(account);
 }
 
 /**
  * Refresh the access token from WeChat API
  */
-async function refreshAccessToken(): Promise<string> {
-    const redis = getRedis();
-    const config = getConfig();
+async function refreshAccessToken(account: WeChatAccount): Promise<string> {
+    const store = getStore();
+    const lockKey = accountKey(account, TOKEN_LOCK_KEY);
 
     // Try to acquire lock to prevent multiple refreshes
-    const lockAcquired = await redis.set(TOKEN_LOCK_KEY, '1', 'EX', 30, 'NX');
+    const lockAcquired = await store.set(lockKey, '1', { ttl: 30, nx: true });
 
     if (!lockAcquired) {
         // Another process is refreshing, wait and retry
         await new Promise(resolve => setTimeout(resolve, 1000));
-        return getAccessToken();
+        return getAccessToken(account);
     }
 
     try {
@@ -53,9 +54,10 @@ async function refreshAccessToken(): Promise<string> {
         const response = await axios.get(url, {
             params: {
                 grant_type: 'client_credential',
-                appid: config.wechat.appId,
-                secret: config.wechat.appSecret,
+                appid: account.appId,
+                secret: account.appSecret,
             },
+            timeout: TOKEN_TIMEOUT_MS,
         });
 
         if (response.data.errcode) {
@@ -70,23 +72,23 @@ async function refreshAccessToken(): Promise<string> {
             expiresAt: now + expires_in,
         };
 
-        // Store in Redis with expiration
-        await redis.set(TOKEN_KEY, JSON.stringify(tokenData), 'EX', expires_in);
+        // Cache with expiration
+        await store.set(accountKey(account, TOKEN_KEY), JSON.stringify(tokenData), { ttl: expires_in });
 
-        console.log(`WeChat access token refreshed, expires in ${expires_in}s`);
+        console.log(`WeChat access token refreshed for ${account.key}, expires in ${expires_in}s`);
 
         return access_token;
     } finally {
         // Release lock
-        await redis.del(TOKEN_LOCK_KEY);
+        await store.del(lockKey);
     }
 }
 
 /**
  * Force refresh the access token (useful for error recovery)
  */
-export async function forceRefreshToken(): Promise<string> {
-    const redis = getRedis();
-    await redis.del(TOKEN_KEY);
-    return refreshAccessToken();
+export async function forceRefreshToken(account: WeChatAccount): Promise<string> {
+    const store = getStore();
+    await store.del(accountKey(account, TOKEN_KEY));
+    return refreshAccessToken(account);
 }
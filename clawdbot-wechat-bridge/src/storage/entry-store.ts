@@ -0,0 +1,223 @@
+import type { Store } from './store.js';
+
+/**
+ * Redis semantics on top of a plain key -> entry table, shared by the
+ * SQLite and in-memory stores. Each operation reads the entry, changes it
+ * and writes it back inside one synchronous transaction, so operations are
+ * atomic like their Redis counterparts. Empty lists, sets and hashes are
+ * removed, and expired entries are treated as missing.
+ */
+
+export type Entry =
+    | { type: 'string'; value: string; expiresAt?: number }
+    | { type: 'list'; value: string[]; expiresAt?: number }
+    | { type: 'set'; value: string[]; expiresAt?: number }
+    | { type: 'hash'; value: Record<string, string>; expiresAt?: number }
+    | { type: 'zset'; value: Record<string, number>; expiresAt?: number };
+
+type EntryType = Entry['type'];
+type EntryOf<T extends EntryType> = Extract<Entry, { type: T }>;
+
+/**
+ * Raw entry table a store is built on
+ */
+export interface EntryBackend {
+    read(key: string): Entry | undefined;
+    write(key: string, entry: Entry): void;
+    remove(key: string): boolean;
+    keys(prefix: string): string[];
+    purgeExpired(now: number): void;
+    transaction<T>(fn: () => T): T;
+    close(): void;
+}
+
+const PURGE_INTERVAL_MS = 60 * 1000;
+
+function wrongType(key: string): Error {
+    return new Error(`WRONGTYPE Operation against a key holding the wrong kind of value (${key})`);
+}
+
+/**
+ * Convert a Redis-style index (negative counts from the end) into an array index
+ */
+function listIndex(length: number, index: number): number {
+    return index < 0 ? length + index : index;
+}
+
+export function createEntryStore(backend: EntryBackend): Store {
+    // Expired entries are also dropped when read; this keeps unread ones from piling up
+    const purgeTimer = setInterval(() => backend.purgeExpired(Date.now()), PURGE_INTERVAL_MS);
+    purgeTimer.unref();
+
+    function load(key: string): Entry | undefined {
+        const entry = backend.read(key);
+        if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            backend.remove(key);
+            return undefined;
+        }
+        return entry;
+    }
+
+    function loadAs<T extends EntryType>(key: string, type: T): EntryOf<T> | undefined {
+        const entry = load(key);
+        if (entry && entry.type !== type) throw wrongType(key);
+        return entry as EntryOf<T> | undefined;
+    }
+
+    /**
+     * Write back a collection, removing the key once it is empty
+     */
+    function save(key: string, entry: Entry): void {
+        const size = Array.isArray(entry.value) ? entry.value.length : Object.keys(entry.value).length;
+        if (entry.type !== 'string' && size === 0) {
+            backend.remove(key);
+        } else {
+            backend.write(key, entry);
+        }
+    }
+
+    function run<T>(fn: () => T): Promise<T> {
+        return new Promise((resolve) => resolve(backend.transaction(fn)));
+    }
+
+    function push(key: string, values: string[], front: boolean): Promise<number> {
+        return run(() => {
+            const entry = loadAs(key, 'list') || { type: 'list' as const, value: [] };
+            entry.value = front ? [...values.reverse(), ...entry.value] : [...entry.value, ...values];
+            save(key, entry);
+            return entry.value.length;
+        });
+    }
+
+    return {
+        get: (key) => run(() => loadAs(key, 'string')?.value ?? null),
+        set: (key, value, options = {}) => run(() => {
+            if (options.nx && load(key)) return false;
+            backend.write(key, {
+                type: 'string',
+                value,
+                expiresAt: options.ttl ? Date.now() + options.ttl * 1000 : undefined,
+            });
+            return true;
+        }),
+        getdel: (key) => run(() => {
+            const entry = loadAs(key, 'string');
+            if (entry) backend.remove(key);
+            return entry?.value ?? null;
+        }),
+        del: (...keys) => run(() => keys.filter((key) => load(key) && backend.remove(key)).length),
+        exists: (key) => run(() => load(key) !== undefined),
+        expire: (key, seconds) => run(() => {
+            const entry = load(key);
+            if (entry) backend.write(key, { ...entry, expiresAt: Date.now() + seconds * 1000 });
+        }),
+        async *scan(prefix) {
+            const keys = await run(() => backend.keys(prefix).filter((key) => load(key)));
+            yield* keys;
+        },
+
+        rpush: (key, ...values) => push(key, values, false),
+        lpush: (key, ...values) => push(key, values, true),
+        lpop: (key) => run(() => {
+            const entry = loadAs(key, 'list');
+            if (!entry) return null;
+            const value = entry.value.shift()!;
+            save(key, entry);
+            return value;
+        }),
+        lindex: (key, index) => run(() => {
+            const list = loadAs(key, 'list')?.value || [];
+            return list[listIndex(list.length, index)] ?? null;
+        }),
+        lset: (key, index, value) => run(() => {
+            const entry = loadAs(key, 'list');
+            if (!entry) throw new Error('ERR no such key');
+            const position = listIndex(entry.value.length, index);
+            if (position < 0 || position >= entry.value.length) throw new Error('ERR index out of range');
+            entry.value[position] = value;
+            save(key, entry);
+        }),
+        llen: (key) => run(() => loadAs(key, 'list')?.value.length ?? 0),
+        ltrim: (key, start, stop) => run(() => {
+            const entry = loadAs(key, 'list');
+            if (!entry) return;
+            const from = Math.max(listIndex(entry.value.length, start), 0);
+            const to = listIndex(entry.value.length, stop);
+            entry.value = entry.value.slice(from, to + 1);
+            save(key, entry);
+        }),
+
+        sadd: (key, ...members) => run(() => {
+            const entry = loadAs(key, 'set') || { type: 'set' as const, value: [] };
+            const added = [...new Set(members)].filter((member) => !entry.value.includes(member));
+            entry.value.push(...added);
+            save(key, entry);
+            return added.length;
+        }),
+        srem: (key, ...members) => run(() => {
+            const entry = loadAs(key, 'set');
+            if (!entry) return 0;
+            const size = entry.value.length;
+            entry.value = entry.value.filter((member) => !members.includes(member));
+            save(key, entry);
+            return size - entry.value.length;
+        }),
+        smembers: (key) => run(() => [...(loadAs(key, 'set')?.value || [])]),
+        scard: (key) => run(() => loadAs(key, 'set')?.value.length ?? 0),
+
+        hget: (key, field) => run(() => {
+            const hash = loadAs(key, 'hash')?.value || {};
+            return Object.hasOwn(hash, field) ? hash[field] : null;
+        }),
+        hset: (key, fields) => run(() => {
+            const entry = loadAs(key, 'hash') || { type: 'hash' as const, value: {} };
+            Object.assign(entry.value, fields);
+            save(key, entry);
+        }),
+        hsetnx: (key, field, value) => run(() => {
+            const entry = loadAs(key, 'hash') || { type: 'hash' as const, value: {} };
+            if (Object.hasOwn(entry.value, field)) return false;
+            entry.value[field] = value;
+            save(key, entry);
+            return true;
+        }),
+        hdel: (key, field) => run(() => {
+            const entry = loadAs(key, 'hash');
+            if (!entry || !Object.hasOwn(entry.value, field)) return;
+            delete entry.value[field];
+            save(key, entry);
+        }),
+        hexists: (key, field) => run(() => Object.hasOwn(loadAs(key, 'hash')?.value || {}, field)),
+        hgetall: (key) => run(() => ({ ...(loadAs(key, 'hash')?.value || {}) })),
+        hkeys: (key) => run(() => Object.keys(loadAs(key, 'hash')?.value || {})),
+        hincrby: (key, field, increment) => run(() => {
+            const entry = loadAs(key, 'hash') || { type: 'hash' as const, value: {} };
+            const current = parseInt(Object.hasOwn(entry.value, field) ? entry.value[field] : '0', 10);
+            if (Number.isNaN(current)) throw new Error('ERR hash value is not an integer');
+            entry.value[field] = String(current + increment);
+            save(key, entry);
+            return current + increment;
+        }),
+
+        zadd: (key, score, member) => run(() => {
+            const entry = loadAs(key, 'zset') || { type: 'zset' as const, value: {} };
+            entry.value[member] = score;
+            save(key, entry);
+        }),
+        zrem: (key, member) => run(() => {
+            const entry = loadAs(key, 'zset');
+            if (!entry || !Object.hasOwn(entry.value, member)) return;
+            delete entry.value[member];
+            save(key, entry);
+        }),
+        zrangebyscore: (key, min, max) => run(() => Object.entries(loadAs(key, 'zset')?.value || {})
+            .filter(([, score]) => score >= min && score <= max)
+            .sort(([a, x], [b, y]) => x - y || (a < b ? -1 : a > b ? 1 : 0))
+            .map(([member]) => member)),
+
+        async close() {
+            clearInterval(purgeTimer);
+            backend.close();
+        },
+    };
+}
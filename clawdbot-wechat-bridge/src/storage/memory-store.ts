@@ -0,0 +1,28 @@
+import { createEntryStore, Entry } from './entry-store.js';
+import type { Store } from './store.js';
+
+/**
+ * Store kept in the process: nothing survives a restart and it can't be
+ * shared between bridge instances. Meant for tests and trying the bridge out.
+ */
+export function createMemoryStore(): Store {
+    const entries = new Map<string, Entry>();
+
+    return createEntryStore({
+        read: (key) => entries.get(key),
+        write(key, entry) {
+            entries.set(key, entry);
+        },
+        remove: (key) => entries.delete(key),
+        keys: (prefix) => [...entries.keys()].filter((key) => key.startsWith(prefix)),
+        purgeExpired(now) {
+            for (const [key, entry] of entries) {
+                if (entry.expiresAt !== undefined && entry.expiresAt <= now) entries.delete(key);
+            }
+        },
+        transaction: (fn) => fn(),
+        close() {
+            entries.clear();
+        },
+    });
+}
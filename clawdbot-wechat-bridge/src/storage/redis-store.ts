@@ -0,0 +1,94 @@
+import Redis from 'ioredis';
+import type { Store } from './store.js';
+
+/**
+ * Store backed by Redis (shared by several bridge instances)
+ */
+export function createRedisStore(url: string): Store {
+    const redis = new Redis(url);
+
+    redis.on('error', (err) => {
+        console.error('Redis connection error:', err);
+    });
+
+    redis.on('connect', () => {
+        console.log('Connected to Redis');
+    });
+
+    return {
+        get: (key) => redis.get(key),
+        async set(key, value, options = {}) {
+            let result: string | null;
+            if (options.ttl && options.nx) {
+                result = await redis.set(key, value, 'EX', options.ttl, 'NX');
+            } else if (options.ttl) {
+                result = await redis.set(key, value, 'EX', options.ttl);
+            } else if (options.nx) {
+                result = await redis.set(key, value, 'NX');
+            } else {
+                result = await redis.set(key, value);
+            }
+            return result === 'OK';
+        },
+        async getdel(key) {
+            // MULTI rather than GETDEL, which needs Redis 6.2
+            const results = await redis.multi().get(key).del(key).exec();
+            return (results?.[0]?.[1] as string | null) ?? null;
+        },
+        del: (...keys) => redis.del(...keys),
+        exists: async (key) => (await redis.exists(key)) > 0,
+        async expire(key, seconds) {
+            await redis.expire(key, seconds);
+        },
+        async *scan(prefix) {
+            let cursor = '0';
+            do {
+                const [next, keys] = await redis.scan(cursor, 'MATCH', `${prefix}*`, 'COUNT', 100);
+                cursor = next;
+                yield* keys;
+            } while (cursor !== '0');
+        },
+
+        rpush: (key, ...values) => redis.rpush(key, ...values),
+        lpush: (key, ...values) => redis.lpush(key, ...values),
+        lpop: (key) => redis.lpop(key),
+        lindex: (key, index) => redis.lindex(key, index),
+        async lset(key, index, value) {
+            await redis.lset(key, index, value);
+        },
+        llen: (key) => redis.llen(key),
+        async ltrim(key, start, stop) {
+            await redis.ltrim(key, start, stop);
+        },
+
+        sadd: (key, ...members) => redis.sadd(key, ...members),
+        srem: (key, ...members) => redis.srem(key, ...members),
+        smembers: (key) => redis.smembers(key),
+        scard: (key) => redis.scard(key),
+
+        hget: (key, field) => redis.hget(key, field),
+        async hset(key, fields) {
+            await redis.hset(key, fields);
+        },
+        hsetnx: async (key, field, value) => (await redis.hsetnx(key, field, value)) === 1,
+        async hdel(key, field) {
+            await redis.hdel(key, field);
+        },
+        hexists: async (key, field) => (await redis.hexists(key, field)) === 1,
+        hgetall: (key) => redis.hgetall(key),
+        hkeys: (key) => redis.hkeys(key),
+        hincrby: (key, field, increment) => redis.hincrby(key, field, increment),
+
+        async zadd(key, score, member) {
+            await redis.zadd(key, score, member);
+        },
+        async zrem(key, member) {
+            await redis.zrem(key, member);
+        },
+        zrangebyscore: (key, min, max) => redis.zrangebyscore(key, min, max),
+
+        async close() {
+            await redis.quit();
+        },
+    };
+}
@@ -0,0 +1,67 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { createEntryStore, Entry } from './entry-store.js';
+import type { Store } from './store.js';
+
+/**
+ * Store kept in a SQLite file, for single-instance deployments without Redis.
+ * Every key is one row; lists, sets and hashes are stored as JSON.
+ */
+export function createSqliteStore(file: string): Store {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+
+    const db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS entries (
+            key TEXT PRIMARY KEY,
+            type TEXT NOT NULL,
+            value TEXT NOT NULL,
+            expires_at INTEGER
+        );
+        CREATE INDEX IF NOT EXISTS entries_expires_at ON entries (expires_at) WHERE expires_at IS NOT NULL;
+    `);
+    console.log(`Using SQLite storage at ${file}`);
+
+    const selectEntry = db.prepare<[string], { type: Entry['type']; value: string; expires_at: number | null }>(
+        'SELECT type, value, expires_at FROM entries WHERE key = ?'
+    );
+    const upsertEntry = db.prepare<[string, string, string, number | null]>(
+        `INSERT INTO entries (key, type, value, expires_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (key) DO UPDATE SET type = excluded.type, value = excluded.value, expires_at = excluded.expires_at`
+    );
+    const deleteEntry = db.prepare<[string]>('DELETE FROM entries WHERE key = ?');
+    const selectKeys = db.prepare<[string, string], { key: string }>(
+        'SELECT key FROM entries WHERE key >= ? AND key < ?'
+    );
+    const deleteExpired = db.prepare<[number]>('DELETE FROM entries WHERE expires_at <= ?');
+
+    return createEntryStore({
+        read(key) {
+            const row = selectEntry.get(key);
+            if (!row) return undefined;
+            return {
+                type: row.type,
+                value: row.type === 'string' ? row.value : JSON.parse(row.value),
+                expiresAt: row.expires_at ?? undefined,
+            } as Entry;
+        },
+        write(key, entry) {
+            const value = entry.type === 'string' ? entry.value : JSON.stringify(entry.value);
+            upsertEntry.run(key, entry.type, value, entry.expiresAt ?? null);
+        },
+        remove: (key) => deleteEntry.run(key).changes > 0,
+        // Range scan rather than LIKE, which would treat _ and % in keys as wildcards
+        keys: (prefix) => selectKeys.all(prefix, prefix + '\uffff').map((row) => row.key),
+        purgeExpired(now) {
+            deleteExpired.run(now);
+        },
+        // IMMEDIATE takes the write lock up front, so another process can't change the row in between
+        transaction: (fn) => db.transaction(fn).immediate(),
+        close() {
+            db.close();
+        },
+    });
+}
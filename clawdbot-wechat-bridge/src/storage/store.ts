@@ -0,0 +1,105 @@
+import { getConfig, WeChatAccount } from '../config.js';
+import { createRedisStore } from './redis-store.js';
+import { createSqliteStore } from './sqlite-store.js';
+import { createMemoryStore } from './memory-store.js';
+
+/**
+ * Storage used by the bridge: bindings, the access_token cache, locks,
+ * dedupe markers, outbound queues and stream buffers.
+ *
+ * The operations follow Redis commands of the same name (and behave like them),
+ * so the Redis backend passes them straight through. SQLite keeps everything
+ * in one file for single-instance deployments without Redis; memory keeps it
+ * in the process and loses it on restart (tests, trying the bridge out).
+ */
+
+export type StorageBackend = 'redis' | 'sqlite' | 'memory';
+
+export interface SetOptions {
+    ttl?: number;  // Seconds until the key expires (no expiry if absent)
+    nx?: boolean;  // Only set the key if it does not exist
+}
+
+export interface Store {
+    // Keys: bindings, caches, locks and markers
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, options?: SetOptions): Promise<boolean>; // false if nx and the key exists
+    getdel(key: string): Promise<string | null>;
+    del(...keys: string[]): Promise<number>;
+    exists(key: string): Promise<boolean>;
+    expire(key: string, seconds: number): Promise<void>;
+    scan(prefix: string): AsyncIterable<string>;
+
+    // Lists: outbound queues, held replies, socket buffers
+    rpush(key: string, ...values: string[]): Promise<number>;
+    lpush(key: string, ...values: string[]): Promise<number>;
+    lpop(key: string): Promise<string | null>;
+    lindex(key: string, index: number): Promise<string | null>;
+    lset(key: string, index: number, value: string): Promise<void>;
+    llen(key: string): Promise<number>;
+    ltrim(key: string, start: number, stop: number): Promise<void>;
+
+    // Sets: socket token index, active queues
+    sadd(key: string, ...members: string[]): Promise<number>;
+    srem(key: string, ...members: string[]): Promise<number>;
+    smembers(key: string): Promise<string[]>;
+    scard(key: string): Promise<number>;
+
+    // Hashes: stream state and chunks
+    hget(key: string, field: string): Promise<string | null>;
+    hset(key: string, fields: Record<string, string>): Promise<void>;
+    hsetnx(key: string, field: string, value: string): Promise<boolean>;
+    hdel(key: string, field: string): Promise<void>;
+    hexists(key: string, field: string): Promise<boolean>;
+    hgetall(key: string): Promise<Record<string, string>>;
+    hkeys(key: string): Promise<string[]>;
+    hincrby(key: string, field: string, increment: number): Promise<number>;
+
+    // Sorted sets: stream due times
+    zadd(key: string, score: number, member: string): Promise<void>;
+    zrem(key: string, member: string): Promise<void>;
+    zrangebyscore(key: string, min: number, max: number): Promise<string[]>;
+
+    close(): Promise<void>;
+}
+
+let store: Store | null = null;
+
+/**
+ * Get the store singleton (backend chosen by STORAGE_BACKEND)
+ */
+export function getStore(): Store {
+    if (!store) {
+        const config = getConfig();
+        switch (config.storage.backend) {
+            case 'sqlite':
+                store = createSqliteStore(config.storage.sqlitePath);
+                break;
+            case 'memory':
+                store = createMemoryStore();
+                break;
+            default:
+                store = createRedisStore(config.redis.url);
+        }
+    }
+    return store;
+}
+
+/**
+ * Namespace a storage key for an account.
+ * The default account keeps the original keys, so single-account data stays valid:
+ * wechat:binding:<openid> -> wechat:app:<key>:binding:<openid>
+ */
+export function accountKey(account: WeChatAccount, key: string): string {
+    return account.default ? key : key.replace(/^wechat:/, `wechat:app:${account.key}:`);
+}
+
+/**
+ * Close the store (for graceful shutdown)
+ */
+export async function closeStore(): Promise<void> {
+    if (store) {
+        await store.close();
+        store = null;
+    }
+}
@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+
+/**
+ * Headers the plugin sets on signed callbacks
+ */
+export const CALLBACK_HEADERS = {
+    taskId: 'x-clawdbot-task-id',
+    timestamp: 'x-clawdbot-timestamp',
+    nonce: 'x-clawdbot-nonce',
+    signature: 'x-clawdbot-signature',
+} as const;
+
+/**
+ * Compute the HMAC-SHA256 signature of a callback
+ * Signed string: timestamp \n nonce \n taskId \n rawBody
+ */
+export function computeCallbackSignature(
+    secret: string,
+    timestamp: string,
+    nonce: string,
+    taskId: string,
+    rawBody: string
+): string {
+    return crypto
+        .createHmac('sha256', secret)
+        .update(`${timestamp}\n${nonce}\n${taskId}\n${rawBody}`)
+        .digest('hex');
+}
+
+/**
+ * Validate a callback signature (constant-time)
+ */
+export function validateCallbackSignature(
+    secret: string,
+    timestamp: string,
+    nonce: string,
+    taskId: string,
+    rawBody: string,
+    signature: string
+): boolean {
+    const expected = Buffer.from(computeCallbackSignature(secret, timestamp, nonce, taskId, rawBody), 'hex');
+    const provided = Buffer.from(signature, 'hex');
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
@@ -6,6 +6,7 @@
 
 import crypto from 'crypto';
 import { XMLParser } from 'fast-xml-parser';
+import { safeEqual } from './signature.js';
 
 const xmlParser = new XMLParser({
     ignoreAttributes: true,
@@ -155,7 +156,7 @@ export function validateMsgSignature(
     msgSignature: string
 ): boolean {
     const calculatedSignature = generateMsgSignature(token, timestamp, nonce, encrypted);
-    return calculatedSignature === msgSignature;
+    return safeEqual(calculatedSignature, msgSignature);
 }
 
 /**
@@ -0,0 +1,57 @@
+import net from 'net';
+
+/**
+ * IPv4 ranges that are not on the public internet: unspecified, private
+ * (RFC 1918), carrier-grade NAT, loopback, link-local, benchmarking,
+ * multicast and reserved (which includes the broadcast address)
+ */
+const NON_PUBLIC_IPV4: Array<[base: string, bits: number]> = [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+];
+
+function ipv4ToInt(ip: string): number {
+    return ip.split('.').reduce((n, part) => ((n << 8) + Number(part)) >>> 0, 0);
+}
+
+function inIpv4Range(ip: string, [base, bits]: [string, number]): boolean {
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return (ipv4ToInt(ip) & mask) === (ipv4ToInt(base) & mask);
+}
+
+/**
+ * Whether an IP address is loopback, link-local, private, multicast or reserved (IPv4 or IPv6)
+ */
+export function isPrivateAddress(ip: string): boolean {
+    if (net.isIPv4(ip)) {
+        return NON_PUBLIC_IPV4.some((range) => inIpv4Range(ip, range));
+    }
+    if (!net.isIPv6(ip)) {
+        return false;
+    }
+
+    const address = ip.toLowerCase();
+    if (address === '::' || address === '::1') return true;
+
+    // IPv4-mapped addresses, dotted (::ffff:127.0.0.1) or hex (::ffff:7f00:1)
+    const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (dotted) return isPrivateAddress(dotted[1]);
+    const hex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (hex) {
+        const high = parseInt(hex[1], 16);
+        const low = parseInt(hex[2], 16);
+        return isPrivateAddress(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+    }
+
+    // Unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8)
+    const first = parseInt(address.split(':')[0] || '0', 16);
+    return (first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xff00) === 0xff00;
+}
@@ -0,0 +1,48 @@
+/**
+ * Lightweight duration probes for the media formats WeChat delivers
+ */
+
+// AMR-NB frame sizes (bytes, excluding the 1-byte header) indexed by frame type
+const AMR_FRAME_SIZES = [12, 13, 15, 17, 19, 20, 26, 31, 5, 0, 0, 0, 0, 0, 0, 0];
+const AMR_MAGIC = '#!AMR\n';
+const AMR_FRAME_MS = 20;
+
+/**
+ * Duration of an AMR-NB file in seconds (WeChat voice messages)
+ */
+export function getAmrDuration(buf: Buffer): number | undefined {
+    if (buf.subarray(0, AMR_MAGIC.length).toString('latin1') !== AMR_MAGIC) {
+        return undefined;
+    }
+
+    let offset = AMR_MAGIC.length;
+    let frames = 0;
+    while (offset < buf.length) {
+        const frameType = (buf[offset] >> 3) & 0x0f;
+        offset += 1 + AMR_FRAME_SIZES[frameType];
+        frames++;
+    }
+    return (frames * AMR_FRAME_MS) / 1000;
+}
+
+/**
+ * Duration of an MP4 file in seconds, read from the movie header (mvhd) box
+ */
+export function getMp4Duration(buf: Buffer): number | undefined {
+    const index = buf.indexOf('mvhd', 0, 'latin1');
+    if (index < 4) return undefined;
+
+    const version = buf[index + 4];
+    try {
+        if (version === 1) {
+            const timescale = buf.readUInt32BE(index + 24);
+            const duration = Number(buf.readBigUInt64BE(index + 28));
+            return timescale ? duration / timescale : undefined;
+        }
+        const timescale = buf.readUInt32BE(index + 16);
+        const duration = buf.readUInt32BE(index + 20);
+        return timescale ? duration / timescale : undefined;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+
+/**
+ * Encryption of secrets kept in storage (AES-256-GCM with a key ring).
+ *
+ * The first key encrypts; every key can decrypt, so a new key can be put in
+ * front and the old one removed once everything has been re-encrypted.
+ * Encrypted values look like `enc:v1:<keyId>:<iv>:<tag>:<ciphertext>`
+ * (base64url); anything else is treated as a plaintext value.
+ */
+
+export interface EncryptionKey {
+    id: string;
+    key: Buffer; // 32 bytes
+}
+
+const PREFIX = 'enc:v1:';
+const KEY_ID_REGEX = /^[A-Za-z0-9_-]{1,32}$/;
+const IV_LENGTH = 12;
+
+/**
+ * Parse a key ring: comma-separated `<id>:<base64 32-byte key>` entries, active key first
+ */
+export function parseKeyRing(value: string | undefined): EncryptionKey[] {
+    if (!value || !value.trim()) return [];
+
+    const keys = value.split(',').map((entry) => entry.trim()).filter(Boolean).map((entry) => {
+        const separator = entry.indexOf(':');
+        const id = entry.slice(0, separator);
+        const key = Buffer.from(entry.slice(separator + 1), 'base64');
+        if (separator <= 0 || !KEY_ID_REGEX.test(id)) {
+            throw new Error(`Invalid encryption key entry "${entry.slice(0, 8)}...": expected <id>:<base64 key>`);
+        }
+        if (key.length !== 32) {
+            throw new Error(`Encryption key ${id} must be 32 bytes (got ${key.length})`);
+        }
+        return { id, key };
+    });
+
+    const ids = new Set(keys.map((k) => k.id));
+    if (ids.size !== keys.length) {
+        throw new Error('Encryption key IDs must be unique');
+    }
+    return keys;
+}
+
+export function isEncrypted(value: string): boolean {
+    return value.startsWith(PREFIX);
+}
+
+/**
+ * ID of the key a value was encrypted with (undefined for plaintext)
+ */
+export function encryptedKeyId(value: string): string | undefined {
+    return isEncrypted(value) ? value.slice(PREFIX.length).split(':')[0] : undefined;
+}
+
+/**
+ * Encrypt with the active key. `context` is authenticated but not stored,
+ * so a value can't be moved into another field.
+ */
+export function encryptSecret(plain: string, keys: EncryptionKey[], context: string): string {
+    const [active] = keys;
+    if (!active) throw new Error('No encryption key configured');
+
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', active.key, iv);
+    cipher.setAAD(Buffer.from(context));
+    const ciphertext = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return PREFIX + [active.id, iv, tag, ciphertext]
+        .map((part) => (typeof part === 'string' ? part : part.toString('base64url')))
+        .join(':');
+}
+
+/**
+ * Decrypt a value (plaintext values are returned as they are)
+ */
+export function decryptSecret(value: string, keys: EncryptionKey[], context: string): string {
+    if (!isEncrypted(value)) return value;
+
+    const [id, iv, tag, ciphertext] = value.slice(PREFIX.length).split(':');
+    const entry = keys.find((k) => k.id === id);
+    if (!entry) {
+        throw new Error(`Secret was encrypted with unknown key ${id}`);
+    }
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', entry.key, Buffer.from(iv, 'base64url'));
+    decipher.setAAD(Buffer.from(context));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Whether a stored value should be rewritten: plaintext, or not under the active key
+ */
+export function needsReencryption(value: string, keys: EncryptionKey[]): boolean {
+    return keys.length > 0 && encryptedKeyId(value) !== keys[0].id;
+}
@@ -10,9 +10,16 @@ export function validateSignature(
     timestamp: string,
     nonce: string
 ): boolean {
-    const arr = [token, timestamp, nonce].sort();
-    const hash = crypto.createHash('sha1').update(arr.join('')).digest('hex');
-    return hash === signature;
+    return safeEqual(generateSignature(token, timestamp, nonce), signature);
+}
+
+/**
+ * Compare two signatures in constant time
+ */
+export function safeEqual(expected: string, provided: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(provided);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
 }
 
 /**
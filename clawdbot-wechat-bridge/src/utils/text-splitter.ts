@@ -0,0 +1,176 @@
+/**
+ * Split long text into WeChat-sized messages.
+ *
+ * WeChat limits text messages to 2048 UTF-8 bytes. Parts never break inside
+ * a code block or a URL, and break at the most natural boundary available:
+ * paragraph, line, sentence (Chinese or Western), clause, then word.
+ * When the text needs more than one part, every part gets an "(i/n) " marker.
+ */
+
+export const MAX_MESSAGE_BYTES = 2048;
+
+// Break candidates, most preferred first. A match's end is the break position.
+const BREAK_PATTERNS: RegExp[] = [
+    /\n\s*\n/g,             // Paragraph
+    /\n/g,                  // Line
+    /[。！？!?…]+["'”’」』）)]*|\.["'”’)]*(?=\s)/g, // Sentence
+    /[，；、,;：:]/g,        // Clause
+    /\s+/g,                 // Word
+];
+
+// Don't accept a preferred break that leaves a part less than this full
+const MIN_FILL_RATIO = 0.3;
+
+const FENCE_BLOCK_REGEX = /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?\n\1[ \t]*$/gm;
+const URL_REGEX = /https?:\/\/[^\s<>"'，。！？）」]+/g;
+
+type Range = [start: number, end: number];
+
+function byteLength(text: string): number {
+    return Buffer.byteLength(text, 'utf8');
+}
+
+/**
+ * Longest prefix of `text` (starting at `from`) that fits in `maxBytes`.
+ * Never ends between the two halves of a surrogate pair.
+ */
+function fitEnd(text: string, from: number, maxBytes: number): number {
+    let bytes = 0;
+    let i = from;
+    while (i < text.length) {
+        const code = text.codePointAt(i)!;
+        const size = code <= 0x7f ? 1 : code <= 0x7ff ? 2 : code <= 0xffff ? 3 : 4;
+        if (bytes + size > maxBytes) break;
+        bytes += size;
+        i += code > 0xffff ? 2 : 1;
+    }
+    return i;
+}
+
+function findRanges(text: string, regex: RegExp): Range[] {
+    return [...text.matchAll(regex)].map(m => [m.index!, m.index! + m[0].length] as Range);
+}
+
+function insideAny(pos: number, ranges: Range[]): Range | undefined {
+    return ranges.find(([start, end]) => start < pos && pos < end);
+}
+
+/**
+ * Rewrite code blocks bigger than a part into several smaller fenced blocks,
+ * split at line boundaries, so the main splitter never has to cut inside one
+ */
+function splitOversizedCodeBlocks(text: string, maxBytes: number): string {
+    return text.replace(FENCE_BLOCK_REGEX, (block, fence: string) => {
+        if (byteLength(block) <= maxBytes) return block;
+
+        const lines = block.split('\n');
+        const open = lines[0];
+        const body = lines.slice(1, -1);
+        const overhead = byteLength(`${open}\n\n${fence}`);
+
+        const blocks: string[] = [];
+        let current: string[] = [];
+        let size = overhead;
+        for (let line of body) {
+            // A single line longer than a whole part has to be cut
+            while (byteLength(line) + overhead > maxBytes) {
+                const cut = fitEnd(line, 0, maxBytes - overhead);
+                if (current.length > 0) {
+                    blocks.push([open, ...current, fence].join('\n'));
+                    current = [];
+                    size = overhead;
+                }
+                blocks.push([open, line.slice(0, cut), fence].join('\n'));
+                line = line.slice(cut);
+            }
+            const lineSize = byteLength(line) + 1;
+            if (size + lineSize > maxBytes && current.length > 0) {
+                blocks.push([open, ...current, fence].join('\n'));
+                current = [];
+                size = overhead;
+            }
+            current.push(line);
+            size += lineSize;
+        }
+        if (current.length > 0) {
+            blocks.push([open, ...current, fence].join('\n'));
+        }
+        return blocks.join('\n\n');
+    });
+}
+
+/**
+ * Split `text` into parts of at most `maxBytes` bytes each
+ */
+function splitToParts(text: string, maxBytes: number): string[] {
+    text = splitOversizedCodeBlocks(text, maxBytes);
+
+    const codeRanges = findRanges(text, FENCE_BLOCK_REGEX);
+    const urlRanges = findRanges(text, URL_REGEX);
+    const unbreakable = [...codeRanges, ...urlRanges];
+
+    const parts: string[] = [];
+    let pos = 0;
+
+    while (pos < text.length) {
+        const limit = fitEnd(text, pos, maxBytes);
+        if (limit >= text.length) {
+            parts.push(text.slice(pos));
+            break;
+        }
+
+        const window = text.slice(pos, limit);
+        let breakAt = -1;
+
+        for (const pattern of BREAK_PATTERNS) {
+            let best = -1;
+            for (const match of window.matchAll(pattern)) {
+                const candidate = pos + match.index! + match[0].length;
+                if (candidate < limit && !insideAny(candidate, unbreakable)) {
+                    best = candidate;
+                }
+            }
+            if (best > pos && byteLength(text.slice(pos, best)) >= maxBytes * MIN_FILL_RATIO) {
+                breakAt = best;
+                break;
+            }
+        }
+
+        if (breakAt === -1) {
+            // No natural boundary: cut hard, but back off to the start of a URL or code block
+            breakAt = limit;
+            const range = insideAny(limit, unbreakable);
+            if (range && range[0] > pos) {
+                breakAt = range[0];
+            }
+        }
+
+        parts.push(text.slice(pos, breakAt));
+        pos = breakAt;
+    }
+
+    return parts.map(part => part.replace(/^\s*\n/, '').trimEnd()).filter(part => part.length > 0);
+}
+
+function marker(index: number, total: number): string {
+    return `(${index}/${total}) `;
+}
+
+/**
+ * Split a message into WeChat-sized parts, each prefixed with "(i/n) " if there are several
+ */
+export function splitMessage(text: string, maxBytes = MAX_MESSAGE_BYTES): string[] {
+    if (byteLength(text) <= maxBytes) {
+        return [text];
+    }
+
+    // The marker eats into each part's budget, and its width depends on the part count
+    let total = 9;
+    while (true) {
+        const parts = splitToParts(text, maxBytes - byteLength(marker(total, total)));
+        if (String(parts.length).length <= String(total).length) {
+            return parts.map((part, i) => marker(i + 1, parts.length) + part);
+        }
+        total = 10 ** String(parts.length).length - 1;
+    }
+}
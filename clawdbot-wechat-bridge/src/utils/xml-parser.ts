@@ -39,7 +39,9 @@ export interface WeChatReply {
     CreateTime: number;
     MsgType: 'text' | 'image' | 'voice' | 'video' | 'music' | 'news';
     Content?: string;
-    // Other media reply fields as needed
+    Image?: { MediaId: string };
+    Voice?: { MediaId: string };
+    Video?: { MediaId: string; Title?: string; Description?: string };
 }
 
 const xmlParser = new XMLParser({
@@ -58,7 +60,12 @@ const xmlBuilder = new XMLBuilder({
  */
 export function parseWeChatXml(xml: string): WeChatMessage {
     const parsed = xmlParser.parse(xml);
-    return parsed.xml as WeChatMessage;
+    const message = parsed.xml as WeChatMessage;
+    // parseTagValue turns a text like "1" into a number
+    if (message.Content !== undefined) {
+        message.Content = String(message.Content);
+    }
+    return message;
 }
 
 /**
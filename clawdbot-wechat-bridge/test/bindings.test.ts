@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { getConfig, getDefaultAccount } from '../src/config.js';
+import { setBinding, getBinding, reencryptBindings } from '../src/services/bindings.js';
+import { getStore } from '../src/storage/store.js';
+import { parseKeyRing, encryptedKeyId } from '../src/utils/secret-box.js';
+import { useTestEnv } from './helpers/env.js';
+
+const rawKey = () => crypto.randomBytes(32).toString('base64');
+
+describe('reencryptBindings', () => {
+    const [k1] = parseKeyRing(`k1:${rawKey()}`);
+    const [k2] = parseKeyRing(`k2:${rawKey()}`);
+    const storedToken = async (openId: string) =>
+        JSON.parse((await getStore().get(`wechat:binding:${openId}`))!).token as string;
+
+    useTestEnv();
+
+    it('moves plaintext and old-key bindings to the active key', async () => {
+        const account = getDefaultAccount();
+        const { bindings } = getConfig();
+
+        await setBinding(account, 'plain-user', 'https://a.example.com/webhook', 'token-a');
+        bindings.encryptionKeys = [k1];
+        await setBinding(account, 'old-user', 'https://b.example.com/webhook', 'token-b');
+        expect(encryptedKeyId(await storedToken('old-user'))).toBe('k1');
+
+        bindings.encryptionKeys = [k2, k1];
+        expect(await reencryptBindings(account)).toEqual({ total: 2, updated: 2, failed: 0 });
+        expect(encryptedKeyId(await storedToken('plain-user'))).toBe('k2');
+        expect(encryptedKeyId(await storedToken('old-user'))).toBe('k2');
+
+        // The old key can go now
+        bindings.encryptionKeys = [k2];
+        expect((await getBinding(account, 'plain-user'))?.token).toBe('token-a');
+        expect((await getBinding(account, 'old-user'))?.token).toBe('token-b');
+        expect(await reencryptBindings(account)).toEqual({ total: 2, updated: 0, failed: 0 });
+    });
+});
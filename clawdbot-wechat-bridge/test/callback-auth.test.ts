@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import type { FastifyRequest } from 'fastify';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { getDefaultAccount } from '../src/config.js';
+import { setBinding, UserBinding } from '../src/services/bindings.js';
+import { verifyCallback } from '../src/services/callback-auth.js';
+import { createTask } from '../src/services/task-store.js';
+import { computeCallbackSignature } from '../src/utils/callback-signature.js';
+import { useTestEnv } from './helpers/env.js';
+
+describe('verifyCallback', () => {
+    let binding: UserBinding;
+    let taskId: string;
+
+    useTestEnv();
+
+    beforeAll(async () => {
+        binding = await setBinding(getDefaultAccount(), 'user-1', 'https://a.example.com/webhook', 'token-a');
+        taskId = await createTask(getDefaultAccount(), 'user-1', binding.id);
+    });
+
+    function signedRequest(options: { secret?: string; task?: string; body?: string; timestamp?: number; nonce?: string } = {}) {
+        const body = options.body ?? '{"success":true}';
+        const task = options.task ?? taskId;
+        const timestamp = String(options.timestamp ?? Math.floor(Date.now() / 1000));
+        const nonce = options.nonce ?? crypto.randomBytes(8).toString('hex');
+        const signature = computeCallbackSignature(options.secret ?? binding.callbackSecret, timestamp, nonce, task, body);
+        return {
+            headers: {
+                'x-clawdbot-task-id': task,
+                'x-clawdbot-timestamp': timestamp,
+                'x-clawdbot-nonce': nonce,
+                'x-clawdbot-signature': signature,
+            },
+            rawBody: body,
+        } as unknown as FastifyRequest;
+    }
+
+    it('accepts a callback signed with the binding secret', async () => {
+        const result = await verifyCallback(signedRequest(), getDefaultAccount(), 'user-1');
+        expect(result).toMatchObject({ ok: true, taskId });
+    });
+
+    it('rejects missing headers, wrong secrets and tampered bodies', async () => {
+        const unsigned = { headers: {}, rawBody: '' } as unknown as FastifyRequest;
+        expect(await verifyCallback(unsigned, getDefaultAccount(), 'user-1')).toMatchObject({ ok: false, status: 401 });
+        expect(await verifyCallback(signedRequest({ secret: 'guess' }), getDefaultAccount(), 'user-1'))
+            .toMatchObject({ ok: false, reason: 'Invalid signature' });
+
+        const request = signedRequest();
+        request.rawBody = '{"success":false}';
+        expect(await verifyCallback(request, getDefaultAccount(), 'user-1')).toMatchObject({ ok: false, reason: 'Invalid signature' });
+    });
+
+    it('rejects stale timestamps and replayed nonces', async () => {
+        const stale = signedRequest({ timestamp: Math.floor(Date.now() / 1000) - 301 });
+        expect(await verifyCallback(stale, getDefaultAccount(), 'user-1')).toMatchObject({ ok: false, status: 401 });
+
+        expect(await verifyCallback(signedRequest({ nonce: 'once' }), getDefaultAccount(), 'user-1')).toMatchObject({ ok: true });
+        expect(await verifyCallback(signedRequest({ nonce: 'once' }), getDefaultAccount(), 'user-1'))
+            .toMatchObject({ ok: false, reason: 'Replayed nonce' });
+    });
+
+    it('rejects tasks of another user or of an earlier binding', async () => {
+        expect(await verifyCallback(signedRequest({ task: 'unknown' }), getDefaultAccount(), 'user-1'))
+            .toMatchObject({ ok: false, reason: 'Unknown task' });
+        expect(await verifyCallback(signedRequest(), getDefaultAccount(), 'user-2'))
+            .toMatchObject({ ok: false, reason: 'Unknown task' });
+
+        const oldSecret = binding.callbackSecret;
+        await setBinding(getDefaultAccount(), 'user-1', 'https://b.example.com/webhook', 'token-b');
+        expect(await verifyCallback(signedRequest({ secret: oldSecret }), getDefaultAccount(), 'user-1'))
+            .toMatchObject({ ok: false, reason: 'Task does not belong to the current binding' });
+    });
+});
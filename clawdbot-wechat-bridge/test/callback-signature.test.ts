@@ -0,0 +1,20 @@
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { computeCallbackSignature, validateCallbackSignature } from '../src/utils/callback-signature.js';
+
+describe('callback signatures', () => {
+    it('signs timestamp, nonce, task ID and raw body with HMAC-SHA256', () => {
+        const expected = crypto.createHmac('sha256', 'secret').update('1700000000\nabc\ntask-1\n{"a":1}').digest('hex');
+        expect(computeCallbackSignature('secret', '1700000000', 'abc', 'task-1', '{"a":1}')).toBe(expected);
+    });
+
+    it('accepts only the exact signature', () => {
+        const signature = computeCallbackSignature('secret', '1', 'n', 't', 'body');
+        expect(validateCallbackSignature('secret', '1', 'n', 't', 'body', signature)).toBe(true);
+        expect(validateCallbackSignature('secret', '1', 'n', 't', 'body!', signature)).toBe(false);
+        expect(validateCallbackSignature('other', '1', 'n', 't', 'body', signature)).toBe(false);
+        expect(validateCallbackSignature('secret', '1', 'n', 't2', 'body', signature)).toBe(false);
+        expect(validateCallbackSignature('secret', '1', 'n', 't', 'body', signature.slice(0, 10))).toBe(false);
+        expect(validateCallbackSignature('secret', '1', 'n', 't', 'body', 'not hex')).toBe(false);
+    });
+});
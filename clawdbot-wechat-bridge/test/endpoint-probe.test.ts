@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { getConfig } from '../src/config.js';
+import { checkEndpointUrl, pluginRequestConfig, PrivateAddressError } from '../src/services/endpoint-probe.js';
+import { useTestEnv } from './helpers/env.js';
+
+describe('endpoint address rules', () => {
+    useTestEnv();
+
+    afterEach(() => {
+        getConfig().bindings.allowPrivateEndpoints = false;
+    });
+
+    // The DNS lookup every request to a plugin endpoint goes through
+    const lookup = (hostname: string) =>
+        (pluginRequestConfig().lookup as unknown as (hostname: string) => Promise<{ address: string; family: number }>)(hostname);
+
+    it('refuses URLs with private IP literals', () => {
+        expect(checkEndpointUrl('http://10.0.0.1/webhook')).toMatchObject({ ok: false, reason: 'private_address' });
+        expect(checkEndpointUrl('http://[::ffff:127.0.0.1]/webhook')).toMatchObject({ ok: false, reason: 'private_address' });
+        expect(checkEndpointUrl('http://198.18.0.1/webhook')).toMatchObject({ ok: false, reason: 'private_address' });
+        expect(checkEndpointUrl('ftp://example.com/webhook')).toMatchObject({ ok: false, reason: 'invalid_url' });
+        expect(checkEndpointUrl('https://example.com/webhook')).toBeNull();
+    });
+
+    it('refuses hostnames that resolve to a private address', async () => {
+        await expect(lookup('localhost')).rejects.toThrow(PrivateAddressError);
+    });
+
+    it('allows private addresses when configured to', async () => {
+        getConfig().bindings.allowPrivateEndpoints = true;
+        expect(checkEndpointUrl('http://127.0.0.1:8765/webhook')).toBeNull();
+        await expect(lookup('localhost')).resolves.toMatchObject({ address: expect.any(String) });
+    });
+});
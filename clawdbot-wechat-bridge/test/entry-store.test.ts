@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStore } from '../src/storage/memory-store.js';
+import { createSqliteStore } from '../src/storage/sqlite-store.js';
+import type { Store } from '../src/storage/store.js';
+
+const backends: [string, () => Store][] = [
+    ['memory', () => createMemoryStore()],
+    ['sqlite', () => createSqliteStore(':memory:')],
+];
+
+describe.each(backends)('entry store (%s)', (_name, createStore) => {
+    let store: Store;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        store = createStore();
+    });
+
+    afterEach(async () => {
+        await store.close();
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    describe('expiry', () => {
+        it('treats a key as missing once its TTL has passed', async () => {
+            await store.set('k', 'v', { ttl: 10 });
+            vi.advanceTimersByTime(9999);
+            expect(await store.get('k')).toBe('v');
+
+            vi.advanceTimersByTime(1);
+            expect(await store.get('k')).toBeNull();
+            expect(await store.exists('k')).toBe(false);
+        });
+
+        it('lets nx succeed again after the key expired', async () => {
+            expect(await store.set('lock', '1', { ttl: 5, nx: true })).toBe(true);
+            expect(await store.set('lock', '2', { ttl: 5, nx: true })).toBe(false);
+
+            vi.advanceTimersByTime(5000);
+            expect(await store.set('lock', '3', { ttl: 5, nx: true })).toBe(true);
+            expect(await store.get('lock')).toBe('3');
+        });
+
+        it('clears the TTL when a key is set again without one', async () => {
+            await store.set('k', 'v', { ttl: 1 });
+            await store.set('k', 'w');
+            vi.advanceTimersByTime(60 * 1000);
+            expect(await store.get('k')).toBe('w');
+        });
+
+        it('expires collections and keeps their TTL while they change', async () => {
+            await store.hincrby('rate', 'count', 1);
+            await store.expire('rate', 10);
+            vi.advanceTimersByTime(5000);
+            expect(await store.hincrby('rate', 'count', 1)).toBe(2);
+
+            vi.advanceTimersByTime(5000);
+            expect(await store.hgetall('rate')).toEqual({});
+            expect(await store.hincrby('rate', 'count', 1)).toBe(1);
+        });
+
+        it('leaves missing keys alone on expire', async () => {
+            await store.expire('missing', 10);
+            expect(await store.exists('missing')).toBe(false);
+        });
+
+        it('skips expired keys when scanning', async () => {
+            await store.set('p:a', '1', { ttl: 1 });
+            await store.set('p:b', '2');
+            await store.set('q:c', '3');
+            vi.advanceTimersByTime(1000);
+
+            const keys: string[] = [];
+            for await (const key of store.scan('p:')) keys.push(key);
+            expect(keys).toEqual(['p:b']);
+        });
+    });
+
+    describe('hashes', () => {
+        it('counts with hincrby and rejects non-integer values', async () => {
+            expect(await store.hincrby('h', 'n', 2)).toBe(2);
+            expect(await store.hincrby('h', 'n', -5)).toBe(-3);
+            await store.hset('h', { s: 'text' });
+            await expect(store.hincrby('h', 's', 1)).rejects.toThrow('not an integer');
+        });
+
+        it('only sets a field once with hsetnx', async () => {
+            expect(await store.hsetnx('h', 'f', 'a')).toBe(true);
+            expect(await store.hsetnx('h', 'f', 'b')).toBe(false);
+            expect(await store.hget('h', 'f')).toBe('a');
+        });
+
+        it('removes the key with its last field', async () => {
+            await store.hset('h', { a: '1', b: '2' });
+            expect(await store.hkeys('h')).toEqual(['a', 'b']);
+            await store.hdel('h', 'a');
+            expect(await store.hexists('h', 'a')).toBe(false);
+            await store.hdel('h', 'b');
+            expect(await store.exists('h')).toBe(false);
+        });
+
+        it('does not report inherited properties as fields', async () => {
+            await store.hset('h', { a: '1' });
+            expect(await store.hget('h', 'toString')).toBeNull();
+            expect(await store.hexists('h', 'constructor')).toBe(false);
+        });
+    });
+
+    describe('lists, sets and sorted sets', () => {
+        it('pushes like Redis and supports negative indexes', async () => {
+            await store.rpush('l', 'b', 'c');
+            await store.lpush('l', 'x', 'a');
+            expect(await store.lindex('l', 0)).toBe('a');
+            expect(await store.lindex('l', -1)).toBe('c');
+            expect(await store.llen('l')).toBe(4);
+
+            await store.ltrim('l', 1, -2);
+            expect([await store.lpop('l'), await store.lpop('l'), await store.lpop('l')]).toEqual(['x', 'b', null]);
+            expect(await store.exists('l')).toBe(false);
+        });
+
+        it('refuses to set an index out of range', async () => {
+            await store.rpush('l', 'a');
+            await expect(store.lset('l', 1, 'b')).rejects.toThrow('out of range');
+            await expect(store.lset('none', 0, 'b')).rejects.toThrow('no such key');
+        });
+
+        it('adds set members once', async () => {
+            expect(await store.sadd('s', 'a', 'b', 'a')).toBe(2);
+            expect(await store.sadd('s', 'b', 'c')).toBe(1);
+            expect(await store.srem('s', 'a', 'z')).toBe(1);
+            expect(await store.smembers('s')).toEqual(['b', 'c']);
+            expect(await store.scard('s')).toBe(2);
+        });
+
+        it('returns sorted set members in score order', async () => {
+            await store.zadd('z', 30, 'c');
+            await store.zadd('z', 10, 'a');
+            await store.zadd('z', 20, 'b');
+            await store.zadd('z', 10, 'aa');
+            expect(await store.zrangebyscore('z', 0, 20)).toEqual(['a', 'aa', 'b']);
+        });
+    });
+
+    it('refuses operations on a key holding another type', async () => {
+        await store.set('k', 'v');
+        await expect(store.rpush('k', 'x')).rejects.toThrow('WRONGTYPE');
+        await expect(store.hget('k', 'f')).rejects.toThrow('WRONGTYPE');
+    });
+});
@@ -0,0 +1,29 @@
+import { afterAll, beforeAll, vi } from 'vitest';
+import { closeStore } from '../../src/storage/store.js';
+
+/**
+ * Configure the bridge for the tests in this file: one default account and
+ * the in-memory store. `overrides` adds or replaces environment variables.
+ * The config is read once per file, so set everything here.
+ */
+export function useTestEnv(overrides: Record<string, string> = {}): void {
+    beforeAll(() => {
+        const env: Record<string, string> = {
+            STORAGE_BACKEND: 'memory',
+            BRIDGE_BASE_URL: 'https://bridge.example.com',
+            WECHAT_APPID: 'wx1',
+            WECHAT_APPSECRET: 'secret',
+            WECHAT_TOKEN: 'tok',
+            BINDING_ENCRYPTION_KEYS: '',
+            ...overrides,
+        };
+        for (const [key, value] of Object.entries(env)) {
+            vi.stubEnv(key, value);
+        }
+    });
+
+    afterAll(async () => {
+        await closeStore();
+        vi.unstubAllEnvs();
+    });
+}
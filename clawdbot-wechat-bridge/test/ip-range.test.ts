@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { isPrivateAddress } from '../src/utils/ip-range.js';
+
+describe('isPrivateAddress', () => {
+    it('flags non-public IPv4 ranges', () => {
+        for (const ip of [
+            '0.0.0.0', '10.1.2.3', '100.64.0.1', '127.0.0.1', '169.254.169.254', '172.16.0.1', '172.31.255.255',
+            '192.168.1.1', '198.18.0.1', '198.19.255.255', '224.0.0.1', '239.255.255.250', '240.0.0.1', '255.255.255.255',
+        ]) {
+            expect(isPrivateAddress(ip), ip).toBe(true);
+        }
+    });
+
+    it('passes public IPv4 addresses, including the neighbours of private ranges', () => {
+        for (const ip of ['8.8.8.8', '100.128.0.1', '172.32.0.1', '198.17.255.255', '198.20.0.1', '223.255.255.255']) {
+            expect(isPrivateAddress(ip), ip).toBe(false);
+        }
+    });
+
+    it('flags non-public IPv6 ranges and passes public ones', () => {
+        for (const ip of ['::', '::1', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'ff02::1']) {
+            expect(isPrivateAddress(ip), ip).toBe(true);
+        }
+        for (const ip of ['2001:4860:4860::8888', '2606:4700::1111']) {
+            expect(isPrivateAddress(ip), ip).toBe(false);
+        }
+    });
+
+    it('looks through IPv4-mapped IPv6 addresses', () => {
+        expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true);
+        expect(isPrivateAddress('::ffff:7f00:1')).toBe(true);
+        expect(isPrivateAddress('::FFFF:A9FE:A9FE')).toBe(true);
+        expect(isPrivateAddress('::ffff:8.8.8.8')).toBe(false);
+        expect(isPrivateAddress('::ffff:808:808')).toBe(false);
+    });
+
+    it('ignores strings that are not IP addresses', () => {
+        expect(isPrivateAddress('localhost')).toBe(false);
+        expect(isPrivateAddress('')).toBe(false);
+    });
+});
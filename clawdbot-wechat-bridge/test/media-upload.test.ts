@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { getDefaultAccount } from '../src/config.js';
+import { buildMediaMessage, MediaRejectedError } from '../src/services/media-upload.js';
+import { useTestEnv } from './helpers/env.js';
+
+describe('buildMediaMessage', () => {
+    useTestEnv();
+
+    const fromUrl = (url: string) => buildMediaMessage(getDefaultAccount(), 'user-1', { url, type: 'image' });
+
+    it('refuses URLs that are not http(s)', async () => {
+        await expect(fromUrl('file:///etc/passwd')).rejects.toThrow(MediaRejectedError);
+        await expect(fromUrl('not a url')).rejects.toThrow('Refusing to download');
+    });
+
+    it('refuses private and metadata addresses', async () => {
+        await expect(fromUrl('http://127.0.0.1/a.png')).rejects.toThrow('Refusing to download');
+        await expect(fromUrl('http://169.254.169.254/latest/meta-data')).rejects.toThrow('Refusing to download');
+        await expect(fromUrl('http://[::ffff:10.0.0.1]/a.png')).rejects.toThrow('Refusing to download');
+    });
+
+    it('refuses hostnames that resolve to a private address', async () => {
+        await expect(fromUrl('http://localhost:1/a.png')).rejects.toThrow(/localhost \(.+\) is a private address/);
+    });
+});
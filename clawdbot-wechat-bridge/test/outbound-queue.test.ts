@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getDefaultAccount } from '../src/config.js';
+import { countHeldReplies } from '../src/services/held-replies.js';
+import { enqueueMessages, listDeadLetters, requeueDeadLetters } from '../src/services/outbound-queue.js';
+import { CustomerServiceMessage, SendResult, sendCustomerServiceMessage } from '../src/services/wechat-message.js';
+import { useTestEnv } from './helpers/env.js';
+
+vi.mock('../src/services/wechat-message.js', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../src/services/wechat-message.js')>(),
+    sendCustomerServiceMessage: vi.fn(async (): Promise<SendResult> => ({ ok: true })),
+    sendTemplateMessage: vi.fn(async (): Promise<SendResult> => ({ ok: true })),
+}));
+
+const send = vi.mocked(sendCustomerServiceMessage);
+const sentTexts = () => send.mock.calls.map(([, message]) => message.msgtype === 'text' ? message.text.content : message.msgtype);
+
+const text = (openId: string, content: string): CustomerServiceMessage =>
+    ({ touser: openId, msgtype: 'text', text: { content } });
+
+const busy: SendResult = { ok: false, errcode: -1, errmsg: 'system busy', transient: true };
+const invalid: SendResult = { ok: false, errcode: 40003, errmsg: 'invalid openid', transient: false };
+const windowClosed: SendResult = { ok: false, errcode: 45015, errmsg: 'response out of time limit', transient: false };
+
+describe('outbound queue', () => {
+    useTestEnv();
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        send.mockReset();
+        send.mockResolvedValue({ ok: true });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('delivers batches in order, one worker per user', async () => {
+        const account = getDefaultAccount();
+        await enqueueMessages(account, 'user-1', [text('user-1', 'a'), text('user-1', 'b')]);
+        await enqueueMessages(account, 'user-1', [text('user-1', 'c')]);
+        await vi.advanceTimersByTimeAsync(0);
+
+        expect(sentTexts()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('retries transient failures with backoff, resuming at the failed message', async () => {
+        const account = getDefaultAccount();
+        send.mockResolvedValueOnce({ ok: true }).mockResolvedValueOnce(busy);
+        await enqueueMessages(account, 'user-2', [text('user-2', 'a'), text('user-2', 'b')]);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(sentTexts()).toEqual(['a', 'b']);
+
+        // A job queued meanwhile waits for the retry instead of overtaking it
+        await enqueueMessages(account, 'user-2', [text('user-2', 'c')]);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(sentTexts()).toEqual(['a', 'b']);
+
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(sentTexts()).toEqual(['a', 'b', 'b', 'c']);
+    });
+
+    it('moves permanently failed jobs to the dead letters, and sends the rest again when requeued', async () => {
+        const account = getDefaultAccount();
+        send.mockResolvedValueOnce({ ok: true }).mockResolvedValueOnce(invalid);
+        const jobId = await enqueueMessages(account, 'user-3', [text('user-3', 'a'), text('user-3', 'b')]);
+        await vi.advanceTimersByTimeAsync(0);
+
+        const [letter] = await listDeadLetters(account);
+        expect(letter).toMatchObject({ id: jobId, openId: 'user-3', sent: 1, lastError: '40003: invalid openid' });
+
+        send.mockClear();
+        expect(await requeueDeadLetters(account, [jobId])).toBe(1);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(sentTexts()).toEqual(['b']);
+        expect(await listDeadLetters(account)).toEqual([]);
+    });
+
+    it('gives up on transient failures after the last attempt', async () => {
+        const account = getDefaultAccount();
+        send.mockResolvedValue(busy);
+        const jobId = await enqueueMessages(account, 'user-4', [text('user-4', 'a')]);
+        await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+        expect(send).toHaveBeenCalledTimes(8);
+        expect((await listDeadLetters(account))[0]).toMatchObject({ id: jobId, attempts: 8 });
+    });
+
+    it('holds what is left of a job once the customer-service window has closed', async () => {
+        const account = getDefaultAccount();
+        send.mockResolvedValueOnce({ ok: true }).mockResolvedValueOnce(windowClosed);
+        await enqueueMessages(account, 'user-5', [text('user-5', 'a'), text('user-5', 'b')]);
+        await vi.advanceTimersByTimeAsync(60 * 1000);
+
+        expect(sentTexts()).toEqual(['a', 'b']);
+        expect(await countHeldReplies(account, 'user-5')).toBe(1);
+        expect(await listDeadLetters(account)).not.toContainEqual(expect.objectContaining({ openId: 'user-5' }));
+    });
+});
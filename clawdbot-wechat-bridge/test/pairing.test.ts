@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FastifyInstance } from 'fastify';
+import { buildApp } from '../src/app.js';
+import { getConfig } from '../src/config.js';
+import { allowPairingAttempt, registerPairing, takePairing } from '../src/services/pairing.js';
+import { useTestEnv } from './helpers/env.js';
+
+describe('bind code registration', () => {
+    useTestEnv({ PAIRING_SECRET: 'pair-secret', PAIR_RATE_LIMIT: '2', PAIR_QR_RATE_LIMIT: '1' });
+
+    let app: FastifyInstance | undefined;
+    let codes = 0;
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        await app?.close();
+        app = undefined;
+        getConfig().trustProxy = false;
+        vi.restoreAllMocks();
+    });
+
+    // Each test connects from an address of its own (the proxy, where there is one)
+    const register = (remoteAddress: string, headers: Record<string, string> = {}, secret = 'pair-secret') =>
+        app!.inject({
+            method: 'POST',
+            url: '/pair',
+            remoteAddress,
+            headers: { authorization: `Bearer ${secret}`, ...headers },
+            payload: { code: `CODE${String(++codes).padStart(4, '0')}`, transport: 'ws', token: `token-${codes}` },
+        });
+
+    it('limits attempts per client IP, with a lower allowance for QR codes', async () => {
+        expect(await allowPairingAttempt('192.0.2.1')).toBe(true);
+        expect(await allowPairingAttempt('192.0.2.1')).toBe(true);
+        expect(await allowPairingAttempt('192.0.2.1')).toBe(false);
+        expect(await allowPairingAttempt('192.0.2.2')).toBe(true);
+
+        expect(await allowPairingAttempt('192.0.2.1', 'qr')).toBe(true);
+        expect(await allowPairingAttempt('192.0.2.1', 'qr')).toBe(false);
+    });
+
+    it('stores a code for one use only', async () => {
+        expect(await registerPairing({ code: 'once01', transport: 'ws', token: 't' })).toMatchObject({ ok: true });
+        expect(await registerPairing({ code: 'ONCE01', transport: 'ws', token: 't' })).toMatchObject({ ok: false, status: 409 });
+
+        expect(await takePairing('once01')).toMatchObject({ code: 'ONCE01', transport: 'ws', token: 't' });
+        expect(await takePairing('ONCE01')).toBeNull();
+    });
+
+    it('refuses invalid codes and private endpoints', async () => {
+        expect(await registerPairing({ code: 'no', transport: 'ws', token: 't' })).toMatchObject({ ok: false, status: 400 });
+        expect(await registerPairing({ code: 'PRIV01', endpoint: 'http://127.0.0.1/webhook', token: 't' }))
+            .toMatchObject({ ok: false, status: 400, error: expect.stringContaining('private_address') });
+    });
+
+    it('requires the pairing secret', async () => {
+        app = buildApp();
+        const response = await register('10.0.0.1', {}, 'guess');
+        expect(response.statusCode).toBe(401);
+    });
+
+    it('ignores X-Forwarded-For unless proxies are trusted', async () => {
+        app = buildApp();
+        expect((await register('10.0.0.2', { 'x-forwarded-for': '203.0.113.20' })).statusCode).toBe(201);
+        expect((await register('10.0.0.2', { 'x-forwarded-for': '203.0.113.21' })).statusCode).toBe(201);
+        // All from the same address, so a new header does not buy more attempts
+        expect((await register('10.0.0.2', { 'x-forwarded-for': '203.0.113.22' })).statusCode).toBe(429);
+    });
+
+    it('limits each client behind a trusted proxy on its own', async () => {
+        getConfig().trustProxy = true;
+        app = buildApp();
+        expect((await register('10.0.0.3', { 'x-forwarded-for': '203.0.113.30' })).statusCode).toBe(201);
+        expect((await register('10.0.0.3', { 'x-forwarded-for': '203.0.113.30' })).statusCode).toBe(201);
+        expect((await register('10.0.0.3', { 'x-forwarded-for': '203.0.113.30' })).statusCode).toBe(429);
+        expect((await register('10.0.0.3', { 'x-forwarded-for': '203.0.113.31' })).statusCode).toBe(201);
+    });
+});
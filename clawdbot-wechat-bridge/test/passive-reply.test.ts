@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getDefaultAccount } from '../src/config.js';
+import { enqueueMessages } from '../src/services/outbound-queue.js';
+import { awaitPassiveReply, hasPassiveReplies, openPassiveReply } from '../src/services/passive-reply.js';
+import { CustomerServiceMessage, sendCustomerServiceMessage } from '../src/services/wechat-message.js';
+import { useTestEnv } from './helpers/env.js';
+
+vi.mock('../src/services/wechat-message.js', async (importOriginal) => ({
+    ...await importOriginal<typeof import('../src/services/wechat-message.js')>(),
+    sendCustomerServiceMessage: vi.fn(async () => ({ ok: true })),
+}));
+
+const sent = vi.mocked(sendCustomerServiceMessage);
+
+const text = (openId: string, content: string): CustomerServiceMessage =>
+    ({ touser: openId, msgtype: 'text', text: { content } });
+
+describe('passive replies', () => {
+    useTestEnv({ WECHAT_REPLY_MODE: 'sync' });
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        sent.mockClear();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    const reply = (openId: string, messageId: string, content: string) =>
+        enqueueMessages(getDefaultAccount(), openId, [text(openId, content)], messageId);
+
+    it('answers each message with its own result', async () => {
+        const account = getDefaultAccount();
+        await openPassiveReply(account, 'msg:1');
+        await openPassiveReply(account, 'msg:2');
+        await reply('user-1', 'msg:2', 'answer to 2');
+
+        const first = awaitPassiveReply(account, 'user-1', 'gh_1', 'msg:1', 1);
+        await vi.advanceTimersByTimeAsync(6000);
+        expect(await first).toBeNull();
+
+        expect(await awaitPassiveReply(account, 'user-1', 'gh_1', 'msg:2', 1)).toContain('answer to 2');
+        expect(sent).not.toHaveBeenCalled();
+    });
+
+    it('sends results for an answered or unknown message through the customer-service queue', async () => {
+        const account = getDefaultAccount();
+        await openPassiveReply(account, 'msg:3');
+        await reply('user-2', 'msg:3', 'answer');
+        expect(await awaitPassiveReply(account, 'user-2', 'gh_1', 'msg:3', 1)).toContain('answer');
+
+        await reply('user-2', 'msg:3', 'late');
+        await reply('user-2', 'msg:unknown', 'stray');
+        await vi.advanceTimersByTimeAsync(0);
+        expect(sent.mock.calls.map(call => call[1])).toEqual([text('user-2', 'late'), text('user-2', 'stray')]);
+    });
+
+    it('keeps a result that misses every delivery for "1"', async () => {
+        const account = getDefaultAccount();
+        await openPassiveReply(account, 'msg:4');
+
+        const last = awaitPassiveReply(account, 'user-3', 'gh_1', 'msg:4', 3);
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(await last).toContain('回复 1 获取结果');
+        expect(await hasPassiveReplies(account, 'user-3')).toBe(true);
+
+        await reply('user-3', 'msg:4', 'finally');
+        expect(await awaitPassiveReply(account, 'user-3', 'gh_1', 'msg:5', 1, true)).toContain('finally');
+        expect(await hasPassiveReplies(account, 'user-3')).toBe(false);
+        expect(sent).not.toHaveBeenCalled();
+    });
+
+    it('keeps what does not fit in one reply for "1"', async () => {
+        const account = getDefaultAccount();
+        await openPassiveReply(account, 'msg:6');
+        const long = 'x'.repeat(1500);
+        await enqueueMessages(account, 'user-4', [text('user-4', long), text('user-4', long), text('user-4', 'end')], 'msg:6');
+
+        const first = await awaitPassiveReply(account, 'user-4', 'gh_1', 'msg:6', 1);
+        expect(first).toContain('还有 2 条消息，回复 1 查看');
+        expect(await hasPassiveReplies(account, 'user-4')).toBe(true);
+
+        const rest = await awaitPassiveReply(account, 'user-4', 'gh_1', 'msg:7', 1, true);
+        expect(rest).toContain('end');
+        expect(rest).not.toContain('还有');
+        expect(await hasPassiveReplies(account, 'user-4')).toBe(false);
+    });
+});
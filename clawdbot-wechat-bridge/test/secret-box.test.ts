@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import {
+    parseKeyRing,
+    encryptSecret,
+    decryptSecret,
+    encryptedKeyId,
+    needsReencryption,
+} from '../src/utils/secret-box.js';
+
+const rawKey = () => crypto.randomBytes(32).toString('base64');
+
+describe('secret box', () => {
+    const [k1] = parseKeyRing(`k1:${rawKey()}`);
+    const [k2] = parseKeyRing(`k2:${rawKey()}`);
+
+    it('parses a key ring with the active key first', () => {
+        const ring = parseKeyRing(` k2:${rawKey()} , k1:${rawKey()} `);
+        expect(ring.map((k) => k.id)).toEqual(['k2', 'k1']);
+        expect(parseKeyRing('')).toEqual([]);
+        expect(parseKeyRing(undefined)).toEqual([]);
+    });
+
+    it('rejects malformed keys and duplicate IDs', () => {
+        expect(() => parseKeyRing('nokey')).toThrow('expected <id>:<base64 key>');
+        expect(() => parseKeyRing(`k1:${Buffer.alloc(16).toString('base64')}`)).toThrow('must be 32 bytes');
+        const key = rawKey();
+        expect(() => parseKeyRing(`k1:${key},k1:${key}`)).toThrow('unique');
+    });
+
+    it('round-trips a secret and tags it with the active key', () => {
+        const sealed = encryptSecret('token-123', [k1], 'binding.token');
+        expect(sealed.startsWith('enc:v1:k1:')).toBe(true);
+        expect(encryptedKeyId(sealed)).toBe('k1');
+        expect(decryptSecret(sealed, [k1], 'binding.token')).toBe('token-123');
+    });
+
+    it('refuses a value moved to another field', () => {
+        const sealed = encryptSecret('token-123', [k1], 'binding.token');
+        expect(() => decryptSecret(sealed, [k1], 'binding.callbackSecret')).toThrow();
+    });
+
+    it('passes plaintext values through', () => {
+        expect(decryptSecret('plain', [k1], 'binding.token')).toBe('plain');
+        expect(encryptedKeyId('plain')).toBeUndefined();
+    });
+
+    describe('key rotation', () => {
+        it('encrypts with the new key and still decrypts with the old one', () => {
+            const old = encryptSecret('token-123', [k1], 'binding.token');
+            const rotated = [k2, k1];
+
+            expect(decryptSecret(old, rotated, 'binding.token')).toBe('token-123');
+            expect(encryptedKeyId(encryptSecret('token-123', rotated, 'binding.token'))).toBe('k2');
+        });
+
+        it('flags values that are plaintext or not under the active key', () => {
+            const old = encryptSecret('token-123', [k1], 'binding.token');
+            const current = encryptSecret('token-123', [k2, k1], 'binding.token');
+
+            expect(needsReencryption(old, [k2, k1])).toBe(true);
+            expect(needsReencryption('plain', [k2, k1])).toBe(true);
+            expect(needsReencryption(current, [k2, k1])).toBe(false);
+            expect(needsReencryption('plain', [])).toBe(false);
+        });
+
+        it('fails clearly once the old key is removed too early', () => {
+            const old = encryptSecret('token-123', [k1], 'binding.token');
+            expect(() => decryptSecret(old, [k2], 'binding.token')).toThrow('unknown key k1');
+        });
+
+        it('cannot decrypt with a different key under the same ID', () => {
+            const sealed = encryptSecret('token-123', [k1], 'binding.token');
+            const [impostor] = parseKeyRing(`k1:${rawKey()}`);
+            expect(() => decryptSecret(sealed, [impostor], 'binding.token')).toThrow();
+        });
+    });
+});
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getConfig, getDefaultAccount } from '../src/config.js';
+import { appendStreamChunk, startStreamSweeper } from '../src/services/stream-buffer.js';
+import { sendTextMessage } from '../src/services/wechat-message.js';
+import { useTestEnv } from './helpers/env.js';
+
+vi.mock('../src/services/wechat-message.js', () => ({
+    sendTextMessage: vi.fn(async () => 'ok'),
+}));
+
+const sent = vi.mocked(sendTextMessage);
+const sentTexts = () => sent.mock.calls.map(call => call[2]);
+
+describe('stream buffer', () => {
+    useTestEnv({ STREAM_TIMEOUT_SECONDS: '120', STREAM_GAP_TIMEOUT_SECONDS: '15' });
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        sent.mockClear();
+        getConfig().stream.mode = 'final';
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    const append = (taskId: string, chunk: string, chunk_index?: number, done = false) =>
+        appendStreamChunk(getDefaultAccount(), 'user-1', taskId, { chunk, chunk_index, done });
+
+    it('appends chunks in index order, whatever order they arrive in', async () => {
+        expect(await append('t-order', 'b', 1)).toEqual({ ok: true, buffered: true });
+        expect(await append('t-order', 'c', 2, true)).toEqual({ ok: true, buffered: true });
+        expect(sent).not.toHaveBeenCalled();
+
+        expect(await append('t-order', 'a', 0)).toEqual({ ok: true, buffered: false });
+        expect(sentTexts()).toEqual(['abc']);
+    });
+
+    it('numbers chunks without an index in arrival order', async () => {
+        await append('t-auto', 'a');
+        await append('t-auto', 'b', undefined, true);
+        expect(sentTexts()).toEqual(['ab']);
+    });
+
+    it('ignores a retried chunk', async () => {
+        await append('t-retry', 'a', 0);
+        await append('t-retry', 'a', 0);
+        await append('t-retry', 'b', 1, true);
+        expect(sentTexts()).toEqual(['ab']);
+    });
+
+    it('flushes around a missing chunk once the gap timeout has passed', async () => {
+        const sweeper = startStreamSweeper();
+        try {
+            await append('t-gap', 'a', 0);
+            await append('t-gap', 'c', 2, true);
+            await vi.advanceTimersByTimeAsync(10 * 1000);
+            expect(sent).not.toHaveBeenCalled();
+
+            await vi.advanceTimersByTimeAsync(10 * 1000);
+            expect(sentTexts()).toHaveLength(1);
+            expect(sentTexts()[0]).toMatch(/^a\n\n\[…部分内容缺失…\]\n\nc$/);
+        } finally {
+            clearInterval(sweeper);
+        }
+    });
+
+    it('sends complete lines early in progressive mode', async () => {
+        const config = getConfig().stream;
+        config.mode = 'progressive';
+        config.flushBytes = 10;
+
+        await append('t-progressive', 'first line\nsecond', 0);
+        expect(sentTexts()).toEqual(['first line']);
+
+        await append('t-progressive', ' line', 1, true);
+        expect(sentTexts()).toEqual(['first line', 'second line']);
+    });
+});
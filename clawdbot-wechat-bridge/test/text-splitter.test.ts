@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { splitMessage, MAX_MESSAGE_BYTES } from '../src/utils/text-splitter.js';
+
+const bytes = (text: string) => Buffer.byteLength(text, 'utf8');
+const stripMarker = (part: string) => part.replace(/^\(\d+\/\d+\) /, '');
+
+describe('splitMessage', () => {
+    it('leaves a message that fits alone, without a marker', () => {
+        const text = '你'.repeat(682) + 'ab'; // 2048 bytes exactly
+        expect(bytes(text)).toBe(MAX_MESSAGE_BYTES);
+        expect(splitMessage(text)).toEqual([text]);
+    });
+
+    it('keeps every part within the byte limit, markers included', () => {
+        const text = '这是一个比较长的句子，用来测试中文的拆分。'.repeat(400);
+        const parts = splitMessage(text);
+        expect(parts.length).toBeGreaterThan(1);
+        for (const part of parts) {
+            expect(bytes(part)).toBeLessThanOrEqual(MAX_MESSAGE_BYTES);
+        }
+        expect(parts.map(stripMarker).join('')).toBe(text);
+    });
+
+    it('numbers the parts and widens the marker past nine parts', () => {
+        const parts = splitMessage('word '.repeat(200), 100);
+        expect(parts.length).toBeGreaterThan(9);
+        parts.forEach((part, i) => expect(part.startsWith(`(${i + 1}/${parts.length}) `)).toBe(true));
+        for (const part of parts) {
+            expect(bytes(part)).toBeLessThanOrEqual(100);
+        }
+    });
+
+    it('prefers paragraph breaks over lines and sentences', () => {
+        const first = 'First paragraph. It has two sentences.';
+        const second = 'Second paragraph.\nWith a second line.';
+        const parts = splitMessage(`${first}\n\n${second}`, 70);
+        expect(parts.map(stripMarker)).toEqual([first, second]);
+    });
+
+    it('breaks after sentence punctuation when there is no line break', () => {
+        const parts = splitMessage('今天天气很好。我们去公园散步吧！然后一起吃晚饭。', 60);
+        expect(parts.map(stripMarker)).toEqual(['今天天气很好。我们去公园散步吧！', '然后一起吃晚饭。']);
+    });
+
+    it('never cuts inside a URL', () => {
+        const url = 'https://example.com/a/very/long/path/that/should/stay/whole?query=1';
+        const parts = splitMessage(`${'x'.repeat(40)} ${url} tail`, 100);
+        expect(parts.some(part => part.includes(url))).toBe(true);
+    });
+
+    it('never ends a part between the halves of a surrogate pair', () => {
+        const parts = splitMessage('😀'.repeat(100), 60);
+        for (const part of parts) {
+            expect(stripMarker(part)).toMatch(/^(😀)+$/);
+            expect(bytes(part)).toBeLessThanOrEqual(60);
+        }
+    });
+
+    it('re-fences code blocks that are larger than a part', () => {
+        const code = Array.from({ length: 40 }, (_, i) => `const line${i} = ${i};`).join('\n');
+        const parts = splitMessage('```js\n' + code + '\n```', 300);
+        expect(parts.length).toBeGreaterThan(1);
+        for (const part of parts) {
+            const body = stripMarker(part);
+            expect(body.startsWith('```js\n')).toBe(true);
+            expect(body.endsWith('\n```')).toBe(true);
+            expect(bytes(part)).toBeLessThanOrEqual(300);
+        }
+    });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WeChatAccount } from '../src/config.js';
+import { verifyWeChatRequest } from '../src/services/wechat-auth.js';
+import { generateSignature } from '../src/utils/signature.js';
+import { useTestEnv } from './helpers/env.js';
+
+const account: WeChatAccount = { key: 'main', appId: 'wx1', appSecret: 'secret', token: 'tok', default: true };
+const other: WeChatAccount = { key: 'other', appId: 'wx2', appSecret: 'secret', token: 'tok' };
+
+function signed(target: WeChatAccount, timestamp: string, nonce: string, body = '<xml/>') {
+    return verifyWeChatRequest(target, generateSignature(target.token, timestamp, nonce), timestamp, nonce, body);
+}
+
+describe('verifyWeChatRequest', () => {
+    let now: number;
+
+    useTestEnv({ WECHAT_MAX_CLOCK_SKEW_SECONDS: '300' });
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        now = Math.floor(Date.now() / 1000);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('accepts a signed request with a fresh timestamp', async () => {
+        expect(await signed(account, String(now), 'n-fresh')).toEqual({ ok: true });
+    });
+
+    it('rejects missing parameters and bad signatures', async () => {
+        expect(await verifyWeChatRequest(account, undefined, String(now), 'n', '')).toMatchObject({ ok: false, status: 400 });
+        expect(await verifyWeChatRequest(account, 'bad', String(now), 'n-bad', '')).toMatchObject({
+            ok: false,
+            status: 403,
+            reason: 'Invalid signature',
+        });
+    });
+
+    it('rejects timestamps outside the allowed clock skew', async () => {
+        expect(await signed(account, String(now - 300), 'n-edge')).toEqual({ ok: true });
+        expect(await signed(account, String(now - 301), 'n-old')).toMatchObject({ ok: false, status: 403 });
+        expect(await signed(account, String(now + 301), 'n-future')).toMatchObject({ ok: false, status: 403 });
+        expect(await signed(account, 'abc', 'n-nan')).toMatchObject({ ok: false, status: 403 });
+    });
+
+    it('lets WeChat retry the same body shortly after the first delivery', async () => {
+        expect(await signed(account, String(now), 'n-retry', '<xml>a</xml>')).toEqual({ ok: true });
+        vi.advanceTimersByTime(5000);
+        expect(await signed(account, String(now), 'n-retry', '<xml>a</xml>')).toEqual({ ok: true });
+    });
+
+    it('rejects a reused nonce with a different body', async () => {
+        expect(await signed(account, String(now), 'n-replay', '<xml>a</xml>')).toEqual({ ok: true });
+        expect(await signed(account, String(now), 'n-replay', '<xml>b</xml>')).toEqual({
+            ok: false,
+            status: 403,
+            reason: 'Replayed nonce',
+        });
+    });
+
+    it('rejects the same body once the retry window has passed', async () => {
+        expect(await signed(account, String(now), 'n-late', '<xml>a</xml>')).toEqual({ ok: true });
+        vi.advanceTimersByTime(31 * 1000);
+        expect(await signed(account, String(now), 'n-late', '<xml>a</xml>')).toMatchObject({ reason: 'Replayed nonce' });
+    });
+
+    it('tracks nonces per account', async () => {
+        expect(await signed(account, String(now), 'n-shared')).toEqual({ ok: true });
+        expect(await signed(other, String(now), 'n-shared', '<xml>other</xml>')).toEqual({ ok: true });
+    });
+});